@@ -16,6 +16,7 @@ export default [
       'vite.config.ts',
       'map-editor/dist/**',
       'map-tile/dist/**',
+      'tileset-editor/dist/**',
       'rm-common/dist/**'
     ]
   },
@@ -0,0 +1,106 @@
+import * as PIXI from 'pixi.js';
+import type { MapData, MapPoint } from 'rm-common';
+import { CELL_SIZE } from './eventLayer';
+
+/**
+ * An overlay showing one display object for each cell of the map.
+ * Only the cells in view are drawn, and the display objects of the cells scrolled out of view are reused.
+ */
+export abstract class CellOverlay<T extends PIXI.Container> extends PIXI.Container {
+  protected mapData: MapData | undefined;
+  /** The drawn cells by their index in a layer of the map data */
+  private readonly cells = new Map<number, T>();
+  private readonly unusedCells: Array<T> = [];
+  /** The cells in view */
+  private view = new PIXI.Rectangle();
+  /** Whether the map changed while the overlay was hidden */
+  private dirty = false;
+
+  /**
+   * Sets the cells in view, and draws the ones scrolled into it.
+   */
+  public setView(view: PIXI.Rectangle) {
+    this.view = view;
+    this.update();
+  }
+
+  /**
+   * Redraws the given cells of the map. Only the ones in view are redrawn, unless the overlay is hidden.
+   */
+  public updateCells(points: Iterable<MapPoint>) {
+    if (!this.mapData) return;
+    if (!this.visible) {
+      this.dirty = true;
+      return;
+    }
+    for (const { x, y } of points) {
+      const cell = this.cells.get(y * this.mapData.width + x);
+      if (cell) {
+        this.drawCell(cell, x, y);
+      }
+    }
+  }
+
+  /**
+   * Draws the cells scrolled into view, or all cells in view if the map changed, unless the overlay is hidden.
+   */
+  public update() {
+    if (!this.visible || !this.mapData) return;
+    const { width, height } = this.mapData;
+    const left = Math.max(this.view.left, 0);
+    const top = Math.max(this.view.top, 0);
+    const right = Math.min(this.view.right, width);
+    const bottom = Math.min(this.view.bottom, height);
+    for (const [index, cell] of this.cells) {
+      const x = index % width;
+      const y = Math.floor(index / width);
+      if (x < left || x >= right || y < top || y >= bottom) {
+        this.releaseCell(index, cell);
+      }
+    }
+    for (let y = top; y < bottom; y++) {
+      for (let x = left; x < right; x++) {
+        const index = y * width + x;
+        let cell = this.cells.get(index);
+        if (!cell) {
+          cell = this.addChild(this.unusedCells.pop() ?? this.createCell());
+          cell.position.set(x * CELL_SIZE, y * CELL_SIZE);
+          this.cells.set(index, cell);
+        } else if (!this.dirty) {
+          continue;
+        }
+        this.drawCell(cell, x, y);
+      }
+    }
+    this.dirty = false;
+  }
+
+  /**
+   * Sets the map and redraws all cells in view.
+   */
+  protected setMapData(mapData: MapData) {
+    // The indices of the drawn cells depend on the width of the map
+    for (const [index, cell] of this.cells) {
+      this.releaseCell(index, cell);
+    }
+    this.mapData = mapData;
+    this.dirty = true;
+    this.update();
+  }
+
+  /**
+   * Creates the display object of a cell, which is placed at the top-left corner of the cell.
+   */
+  protected abstract createCell(): T;
+
+  /**
+   * Draws the cell (x, y) of the map on its display object, which may have shown another cell before.
+   */
+  protected abstract drawCell(cell: T, x: number, y: number): void;
+
+  private releaseCell(index: number, cell: T) {
+    this.removeChild(cell);
+    this.cells.delete(index);
+    this.unusedCells.push(cell);
+  }
+}
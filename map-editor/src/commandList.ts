@@ -0,0 +1,421 @@
+import { describeCommand, EventCode, getCommandGroupEnd, isContinuationCommand, type EventCommand } from 'rm-common';
+
+type CommandValues = Record<string, string | number>;
+
+type CommandField = {
+  key: string;
+  label: string;
+  type: 'text' | 'lines' | 'number' | 'select';
+  /** Pairs of value and label for `select` fields */
+  options?: Array<[number | string, string]>;
+};
+
+/**
+ * How a kind of command is inserted and edited in the command dialog.
+ */
+type CommandSpec = {
+  code: number;
+  name: string;
+  fields: Array<CommandField>;
+  defaults: CommandValues;
+  /** Whether the command can be edited with the fields, e.g. not when its operand is a variable */
+  canEdit?: (command: EventCommand) => boolean;
+  /** Reads the values from the command and its continuation lines */
+  read: (commands: Array<EventCommand>) => CommandValues;
+  /** Creates the command and its continuation lines. `original` is the edited command, if any. */
+  write: (values: CommandValues, indent: number, original?: Array<EventCommand>) => Array<EventCommand>;
+};
+
+const ON_OFF: Array<[number, string]> = [
+  [0, 'ON'],
+  [1, 'OFF']
+];
+
+/**
+ * A spec for commands made of lines of text, such as comments and scripts.
+ */
+function linesSpec(code: number, continuationCode: number, name: string): CommandSpec {
+  return {
+    code,
+    name,
+    fields: [{ key: 'text', label: name, type: 'lines' }],
+    defaults: { text: '' },
+    read: (commands) => ({ text: commands.map((command) => command.parameters[0]).join('\n') }),
+    write: ({ text }, indent) =>
+      `${text}`.split('\n').map((line, i) => ({ code: i === 0 ? code : continuationCode, indent, parameters: [line] }))
+  };
+}
+
+/**
+ * A spec for commands with a single parameter.
+ */
+function singleSpec(code: number, name: string, field: CommandField, defaultValue: string | number): CommandSpec {
+  return {
+    code,
+    name,
+    fields: [field],
+    defaults: { [field.key]: defaultValue },
+    read: ([command]) => ({ [field.key]: command.parameters[0] as string | number }),
+    write: (values, indent) => [{ code, indent, parameters: [values[field.key]] }]
+  };
+}
+
+const COMMAND_SPECS: Array<CommandSpec> = [
+  {
+    code: EventCode.ShowText,
+    name: 'Show Text',
+    fields: [
+      { key: 'faceName', label: 'Face', type: 'text' },
+      { key: 'faceIndex', label: 'Face Index', type: 'number' },
+      {
+        key: 'background',
+        label: 'Background',
+        type: 'select',
+        options: [
+          [0, 'Window'],
+          [1, 'Dim'],
+          [2, 'Transparent']
+        ]
+      },
+      {
+        key: 'positionType',
+        label: 'Window Position',
+        type: 'select',
+        options: [
+          [0, 'Top'],
+          [1, 'Middle'],
+          [2, 'Bottom']
+        ]
+      },
+      { key: 'speakerName', label: 'Name (MZ)', type: 'text' },
+      { key: 'text', label: 'Text', type: 'lines' }
+    ],
+    defaults: { faceName: '', faceIndex: 0, background: 0, positionType: 2, speakerName: '', text: '' },
+    read: ([head, ...lines]) => {
+      const [faceName, faceIndex, background, positionType, speakerName] = head.parameters as [
+        string,
+        number,
+        number,
+        number,
+        string?
+      ];
+      const text = lines.map((line) => line.parameters[0]).join('\n');
+      return { faceName, faceIndex, background, positionType, speakerName: speakerName ?? '', text };
+    },
+    write: (values, indent, original) => {
+      const parameters: Array<unknown> = [values.faceName, values.faceIndex, values.background, values.positionType];
+      // MZ always writes the speaker name, MV never does
+      if (values.speakerName || (original && original[0].parameters.length > 4)) {
+        parameters.push(values.speakerName);
+      }
+      const lines = `${values.text}`.split('\n');
+      return [
+        { code: EventCode.ShowText, indent, parameters },
+        ...lines.map((line) => ({ code: EventCode.TextData, indent, parameters: [line] }))
+      ];
+    }
+  },
+  linesSpec(EventCode.Comment, EventCode.CommentData, 'Comment'),
+  {
+    code: EventCode.ControlSwitches,
+    name: 'Control Switches',
+    fields: [
+      { key: 'startId', label: 'From', type: 'number' },
+      { key: 'endId', label: 'To', type: 'number' },
+      { key: 'value', label: 'Operation', type: 'select', options: ON_OFF }
+    ],
+    defaults: { startId: 1, endId: 1, value: 0 },
+    read: ([command]) => {
+      const [startId, endId, value] = command.parameters as Array<number>;
+      return { startId, endId, value };
+    },
+    write: ({ startId, endId, value }, indent) => [
+      { code: EventCode.ControlSwitches, indent, parameters: [startId, Math.max(+endId, +startId), value] }
+    ]
+  },
+  {
+    code: EventCode.ControlVariables,
+    name: 'Control Variables',
+    fields: [
+      { key: 'startId', label: 'From', type: 'number' },
+      { key: 'endId', label: 'To', type: 'number' },
+      {
+        key: 'operationType',
+        label: 'Operation',
+        type: 'select',
+        options: [
+          [0, 'Set'],
+          [1, 'Add'],
+          [2, 'Sub'],
+          [3, 'Mul'],
+          [4, 'Div'],
+          [5, 'Mod']
+        ]
+      },
+      { key: 'value', label: 'Constant', type: 'number' }
+    ],
+    defaults: { startId: 1, endId: 1, operationType: 0, value: 0 },
+    canEdit: (command) => command.parameters[3] === 0,
+    read: ([command]) => {
+      const [startId, endId, operationType, , value] = command.parameters as Array<number>;
+      return { startId, endId, operationType, value };
+    },
+    write: ({ startId, endId, operationType, value }, indent) => [
+      {
+        code: EventCode.ControlVariables,
+        indent,
+        parameters: [startId, Math.max(+endId, +startId), operationType, 0, value]
+      }
+    ]
+  },
+  {
+    code: EventCode.ControlSelfSwitch,
+    name: 'Control Self Switch',
+    fields: [
+      {
+        key: 'ch',
+        label: 'Self Switch',
+        type: 'select',
+        options: [
+          ['A', 'A'],
+          ['B', 'B'],
+          ['C', 'C'],
+          ['D', 'D']
+        ]
+      },
+      { key: 'value', label: 'Operation', type: 'select', options: ON_OFF }
+    ],
+    defaults: { ch: 'A', value: 0 },
+    read: ([command]) => ({ ch: command.parameters[0] as string, value: command.parameters[1] as number }),
+    write: ({ ch, value }, indent) => [{ code: EventCode.ControlSelfSwitch, indent, parameters: [ch, value] }]
+  },
+  {
+    code: EventCode.ChangeGold,
+    name: 'Change Gold',
+    fields: [
+      {
+        key: 'operation',
+        label: 'Operation',
+        type: 'select',
+        options: [
+          [0, 'Increase'],
+          [1, 'Decrease']
+        ]
+      },
+      { key: 'value', label: 'Constant', type: 'number' }
+    ],
+    defaults: { operation: 0, value: 0 },
+    canEdit: (command) => command.parameters[1] === 0,
+    read: ([command]) => ({ operation: command.parameters[0] as number, value: command.parameters[2] as number }),
+    write: ({ operation, value }, indent) => [{ code: EventCode.ChangeGold, indent, parameters: [operation, 0, value] }]
+  },
+  {
+    code: EventCode.TransferPlayer,
+    name: 'Transfer Player',
+    fields: [
+      { key: 'mapId', label: 'Map ID', type: 'number' },
+      { key: 'x', label: 'X', type: 'number' },
+      { key: 'y', label: 'Y', type: 'number' },
+      {
+        key: 'direction',
+        label: 'Direction',
+        type: 'select',
+        options: [
+          [0, 'Retain'],
+          [2, 'Down'],
+          [4, 'Left'],
+          [6, 'Right'],
+          [8, 'Up']
+        ]
+      },
+      {
+        key: 'fadeType',
+        label: 'Fade',
+        type: 'select',
+        options: [
+          [0, 'Black'],
+          [1, 'White'],
+          [2, 'None']
+        ]
+      }
+    ],
+    defaults: { mapId: 1, x: 0, y: 0, direction: 0, fadeType: 0 },
+    canEdit: (command) => command.parameters[0] === 0,
+    read: ([command]) => {
+      const [, mapId, x, y, direction, fadeType] = command.parameters as Array<number>;
+      return { mapId, x, y, direction, fadeType };
+    },
+    write: ({ mapId, x, y, direction, fadeType }, indent) => [
+      { code: EventCode.TransferPlayer, indent, parameters: [0, mapId, x, y, direction, fadeType] }
+    ]
+  },
+  singleSpec(EventCode.CommonEvent, 'Common Event', { key: 'id', label: 'Common Event ID', type: 'number' }, 1),
+  singleSpec(EventCode.Label, 'Label', { key: 'name', label: 'Label Name', type: 'text' }, ''),
+  singleSpec(EventCode.JumpToLabel, 'Jump to Label', { key: 'name', label: 'Label Name', type: 'text' }, ''),
+  singleSpec(EventCode.Wait, 'Wait', { key: 'duration', label: 'Frames', type: 'number' }, 60),
+  linesSpec(EventCode.Script, EventCode.ScriptData, 'Script')
+];
+
+/**
+ * The dialog editing the values of a single command.
+ */
+class CommandDialog {
+  private readonly dialog: HTMLDialogElement;
+  private readonly fields: HTMLElement;
+  private resolve: ((values: CommandValues | undefined) => void) | undefined;
+
+  constructor() {
+    this.dialog = document.querySelector('#commandDialog') as HTMLDialogElement;
+    this.fields = this.dialog.querySelector('#commandFields') as HTMLElement;
+    this.dialog.addEventListener('close', () => {
+      this.resolve?.(this.dialog.returnValue === 'ok' ? this.read() : undefined);
+      this.resolve = undefined;
+    });
+  }
+
+  /**
+   * Shows the fields of the spec filled with the values.
+   * Resolves with the new values when OK is pressed, or `undefined` when cancelled.
+   */
+  public open(spec: CommandSpec, values: CommandValues) {
+    (this.dialog.querySelector('#commandName') as HTMLElement).textContent = spec.name;
+    this.fields.replaceChildren(...spec.fields.map((field) => this.createField(field, values[field.key])));
+    this.dialog.returnValue = '';
+    this.dialog.showModal();
+    return new Promise<CommandValues | undefined>((resolve) => {
+      this.resolve = resolve;
+    });
+  }
+
+  private createField(field: CommandField, value: string | number | undefined) {
+    let input: HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement;
+    if (field.type === 'lines') {
+      input = document.createElement('textarea');
+      input.rows = 4;
+    } else if (field.type === 'select') {
+      input = document.createElement('select');
+      input.append(...(field.options ?? []).map(([optionValue, text]) => new Option(text, `${optionValue}`)));
+    } else {
+      input = document.createElement('input');
+      input.type = field.type;
+    }
+    input.name = field.key;
+    input.dataset.number = `${typeof value === 'number'}`;
+    input.value = `${value ?? ''}`;
+
+    const label = document.createElement('label');
+    label.append(field.label, input);
+    return label;
+  }
+
+  private read() {
+    const values: CommandValues = {};
+    for (const input of this.fields.querySelectorAll<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>(
+      '[name]'
+    )) {
+      values[input.name] = input.dataset.number === 'true' ? Math.floor(Number(input.value)) || 0 : input.value;
+    }
+    return values;
+  }
+}
+
+/**
+ * Shows the command list of an event page as RPG Maker's contents list, and inserts, edits and deletes commands.
+ * The list is edited in place.
+ */
+export class CommandList {
+  private readonly element: HTMLElement;
+  private readonly typeSelect: HTMLSelectElement;
+  private readonly dialog = new CommandDialog();
+  private list: Array<EventCommand> = [];
+  private selected = 0;
+
+  constructor(root: HTMLElement) {
+    this.element = root.querySelector('#commandList') as HTMLElement;
+    this.typeSelect = root.querySelector('#commandType') as HTMLSelectElement;
+    this.typeSelect.append(...COMMAND_SPECS.map((spec) => new Option(spec.name, `${spec.code}`)));
+
+    root.querySelector('#insertCommand')?.addEventListener('click', () => this.insert());
+    root.querySelector('#editCommand')?.addEventListener('click', () => this.edit());
+    root.querySelector('#deleteCommand')?.addEventListener('click', () => this.delete());
+    this.element.addEventListener('keydown', (e) => {
+      if (e.key === 'Delete') {
+        this.delete();
+      } else if (e.key === 'Enter') {
+        this.edit();
+      } else if (e.key === 'ArrowUp' || e.key === 'ArrowDown') {
+        this.select(this.selected + (e.key === 'ArrowUp' ? -1 : 1));
+      } else {
+        return;
+      }
+      e.preventDefault();
+      e.stopPropagation();
+    });
+  }
+
+  public setList(list: Array<EventCommand>) {
+    this.list = list;
+    this.selected = 0;
+    this.render();
+  }
+
+  private render() {
+    this.element.replaceChildren(
+      ...this.list.map((command, index) => {
+        const row = document.createElement('div');
+        row.className = 'command';
+        row.classList.toggle('selected', index === this.selected);
+        row.style.paddingLeft = `${command.indent * 1.5}em`;
+        row.textContent = describeCommand(command);
+        row.addEventListener('click', () => this.select(index));
+        row.addEventListener('dblclick', () => (command.code === EventCode.End ? this.insert() : this.edit()));
+        return row;
+      })
+    );
+  }
+
+  private select(index: number) {
+    this.selected = Math.min(Math.max(index, 0), this.list.length - 1);
+    for (const [i, row] of [...this.element.children].entries()) {
+      row.classList.toggle('selected', i === this.selected);
+    }
+    this.element.children[this.selected]?.scrollIntoView({ block: 'nearest' });
+  }
+
+  /**
+   * Inserts a command of the selected type above the selected line, as RPG Maker does.
+   */
+  private async insert() {
+    const target = this.list[this.selected];
+    const spec = COMMAND_SPECS.find((spec) => `${spec.code}` === this.typeSelect.value);
+    if (!target || !spec || isContinuationCommand(target)) return;
+    const values = await this.dialog.open(spec, spec.defaults);
+    if (values) {
+      this.list.splice(this.selected, 0, ...spec.write(values, target.indent));
+      this.render();
+    }
+  }
+
+  private async edit() {
+    const target = this.list[this.selected];
+    const spec = COMMAND_SPECS.find((spec) => spec.code === target?.code);
+    if (!target || !spec || (spec.canEdit && !spec.canEdit(target))) return;
+    const end = getCommandGroupEnd(this.list, this.selected);
+    const original = this.list.slice(this.selected, end);
+    const values = await this.dialog.open(spec, spec.read(original));
+    if (values) {
+      this.list.splice(this.selected, end - this.selected, ...spec.write(values, target.indent, original));
+      this.render();
+    }
+  }
+
+  /**
+   * Deletes the selected command with its continuation lines, and for blocks, everything inside.
+   */
+  private delete() {
+    const target = this.list[this.selected];
+    if (!target || target.code === EventCode.End || isContinuationCommand(target)) return;
+    this.list.splice(this.selected, getCommandGroupEnd(this.list, this.selected) - this.selected);
+    this.render();
+  }
+}
@@ -0,0 +1,158 @@
+import * as PIXI from 'pixi.js';
+import { allocateEventId, createEvent, findEventAt, type MapData, type MapEvent } from 'rm-common';
+import { CELL_SIZE } from './eventLayer';
+import type { EventForm } from './eventForm';
+
+/**
+ * A change of the events, sent to the extension as one undoable edit.
+ */
+export type EventChange = { type: 'setEvent'; event: MapEvent } | { type: 'deleteEvent'; id: number };
+
+/**
+ * Creates, moves, copies and deletes the events of the map in the event tool.
+ * Changes are applied to the map data, then reported with `onChange`.
+ */
+export class EventEditor extends PIXI.Container {
+  public mapData: MapData | undefined;
+  public selectedId: number | undefined;
+
+  private readonly form: EventForm;
+  private readonly onChange: (change: EventChange) => void;
+  private readonly selection: PIXI.Graphics;
+  /** The event being dragged */
+  private dragging: MapEvent | undefined;
+  private clipboard: MapEvent | undefined;
+
+  constructor(form: EventForm, onChange: (change: EventChange) => void) {
+    super();
+    this.form = form;
+    this.onChange = onChange;
+    this.selection = this.addChild(
+      new PIXI.Graphics().rect(0, 0, CELL_SIZE, CELL_SIZE).stroke({ color: 0xffff00, width: 3 })
+    );
+    this.selection.visible = false;
+  }
+
+  /**
+   * Selects the event at (x, y) and starts dragging it.
+   */
+  public pointerDown(x: number, y: number) {
+    const event = findEventAt(this.mapData?.events, x, y);
+    this.select(event);
+    this.dragging = event;
+  }
+
+  /**
+   * Moves the selection with the dragged event.
+   */
+  public pointerMove(x: number, y: number) {
+    if (this.dragging && this.canPlaceAt(x, y)) {
+      this.selection.position.set(x * CELL_SIZE, y * CELL_SIZE);
+    }
+  }
+
+  /**
+   * Drops the dragged event at (x, y) if the cell is free.
+   */
+  public pointerUp(x: number, y: number) {
+    const event = this.dragging;
+    this.dragging = undefined;
+    if (!event || (event.x === x && event.y === y)) {
+      return;
+    }
+    if (!this.canPlaceAt(x, y)) {
+      this.select(event);
+      return;
+    }
+    this.setEvent({ ...event, x, y });
+  }
+
+  /**
+   * Opens the properties of the event at (x, y), or of a new event if the cell is empty.
+   */
+  public async edit(x: number, y: number) {
+    if (!this.mapData || !this.isInside(x, y)) return;
+    this.dragging = undefined;
+    const event =
+      findEventAt(this.mapData.events, x, y) ?? createEvent(allocateEventId(this.mapData.events ?? []), x, y);
+    this.select(event);
+    const edited = await this.form.open(event);
+    if (edited) {
+      this.setEvent(edited);
+    }
+  }
+
+  /**
+   * Handles the keyboard shortcuts of the event tool. The cursor is where pasted events go.
+   * Returns whether the key was used.
+   */
+  public keyDown(e: KeyboardEvent, cursor: PIXI.Point) {
+    if (this.form.isOpen || !this.mapData) return false;
+    const selected = this.getSelected();
+    const ctrl = e.ctrlKey || e.metaKey;
+
+    if (e.key === 'Enter' && selected) {
+      this.edit(selected.x, selected.y);
+    } else if ((e.key === 'Delete' || e.key === 'Backspace') && selected) {
+      this.deleteEvent(selected.id);
+    } else if (ctrl && e.key === 'c' && selected) {
+      this.clipboard = structuredClone(selected);
+    } else if (ctrl && e.key === 'x' && selected) {
+      this.clipboard = structuredClone(selected);
+      this.deleteEvent(selected.id);
+    } else if (ctrl && e.key === 'v' && this.clipboard) {
+      if (this.canPlaceAt(cursor.x, cursor.y)) {
+        const id = allocateEventId(this.mapData.events ?? []);
+        this.setEvent({ ...structuredClone(this.clipboard), id, x: cursor.x, y: cursor.y });
+      }
+    } else {
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Updates the selection after the events are replaced, e.g. by undo/redo.
+   */
+  public refresh() {
+    this.select(this.getSelected());
+  }
+
+  private getSelected() {
+    return this.selectedId !== undefined ? (this.mapData?.events?.[this.selectedId] ?? undefined) : undefined;
+  }
+
+  private select(event: MapEvent | undefined) {
+    this.selectedId = event?.id;
+    this.selection.visible = !!event;
+    if (event) {
+      this.selection.position.set(event.x * CELL_SIZE, event.y * CELL_SIZE);
+    }
+  }
+
+  private isInside(x: number, y: number) {
+    return !!this.mapData && x >= 0 && x < this.mapData.width && y >= 0 && y < this.mapData.height;
+  }
+
+  private canPlaceAt(x: number, y: number) {
+    return this.isInside(x, y) && !findEventAt(this.mapData?.events, x, y);
+  }
+
+  private setEvent(event: MapEvent) {
+    if (!this.mapData) return;
+    const events = (this.mapData.events ??= [null]);
+    while (events.length <= event.id) {
+      events.push(null);
+    }
+    events[event.id] = event;
+    this.select(event);
+    this.onChange({ type: 'setEvent', event });
+  }
+
+  private deleteEvent(id: number) {
+    if (!this.mapData?.events?.[id]) return;
+    this.mapData.events[id] = null;
+    this.select(undefined);
+    this.onChange({ type: 'deleteEvent', id });
+  }
+}
@@ -0,0 +1,116 @@
+import { CommandList } from './commandList';
+import { createEventPage, type EventPage, type MapEvent } from 'rm-common';
+import { getPath, loadField, setPath, type FormField } from './formFields';
+
+/**
+ * The dialog editing the properties of an event and its pages.
+ * Fields are bound with `data-event` (a property of the event) or `data-page` (a property of the current page).
+ * The command list of the current page is edited with a `CommandList`.
+ */
+export class EventForm {
+  private readonly dialog: HTMLDialogElement;
+  private readonly pageSelect: HTMLSelectElement;
+  private readonly commandList: CommandList;
+  private event: MapEvent | undefined;
+  private pageIndex = 0;
+  private resolve: ((event: MapEvent | undefined) => void) | undefined;
+
+  constructor() {
+    this.dialog = document.querySelector('#eventDialog') as HTMLDialogElement;
+    this.pageSelect = this.dialog.querySelector('#eventPage') as HTMLSelectElement;
+    this.commandList = new CommandList(this.dialog);
+
+    this.pageSelect.addEventListener('change', () => {
+      this.savePage();
+      this.loadPage(Number(this.pageSelect.value));
+    });
+    this.dialog.querySelector('#newPage')?.addEventListener('click', () => {
+      this.insertPage(createEventPage());
+    });
+    this.dialog.querySelector('#copyPage')?.addEventListener('click', () => {
+      this.savePage();
+      this.insertPage(structuredClone(this.currentPage()));
+    });
+    this.dialog.querySelector('#deletePage')?.addEventListener('click', () => {
+      if (!this.event || this.event.pages.length <= 1) return;
+      this.event.pages.splice(this.pageIndex, 1);
+      this.updatePageList();
+      this.loadPage(Math.min(this.pageIndex, this.event.pages.length - 1));
+    });
+    this.dialog.addEventListener('close', () => {
+      const event = this.dialog.returnValue === 'ok' ? this.save() : undefined;
+      this.resolve?.(event);
+      this.resolve = undefined;
+      this.event = undefined;
+    });
+  }
+
+  /**
+   * Whether the dialog is shown. Keyboard shortcuts of the map are disabled meanwhile.
+   */
+  public get isOpen() {
+    return this.dialog.open;
+  }
+
+  /**
+   * Shows the dialog for a copy of the event.
+   * Resolves with the edited event when OK is pressed, or `undefined` when cancelled.
+   */
+  public open(event: MapEvent) {
+    this.event = structuredClone(event);
+    this.dialog.returnValue = '';
+    for (const field of this.dialog.querySelectorAll<FormField>('[data-event]')) {
+      loadField(field, getPath(this.event, field.dataset.event as string));
+    }
+    this.updatePageList();
+    this.loadPage(0);
+    this.dialog.showModal();
+    return new Promise<MapEvent | undefined>((resolve) => {
+      this.resolve = resolve;
+    });
+  }
+
+  private currentPage() {
+    return this.event?.pages[this.pageIndex] as EventPage;
+  }
+
+  private insertPage(page: EventPage) {
+    if (!this.event) return;
+    this.event.pages.splice(this.pageIndex + 1, 0, page);
+    this.updatePageList();
+    this.loadPage(this.pageIndex + 1);
+  }
+
+  private updatePageList() {
+    this.pageSelect.replaceChildren(
+      ...(this.event?.pages ?? []).map((_, index) => new Option(`Page ${index + 1}`, `${index}`))
+    );
+  }
+
+  private loadPage(index: number) {
+    this.pageIndex = index;
+    this.pageSelect.value = `${index}`;
+    const page = this.currentPage();
+    for (const field of this.dialog.querySelectorAll<FormField>('[data-page]')) {
+      loadField(field, getPath(page, field.dataset.page as string));
+    }
+    this.commandList.setList(page.list);
+  }
+
+  private savePage() {
+    const page = this.currentPage();
+    if (!page) return;
+    for (const field of this.dialog.querySelectorAll<FormField>('[data-page]')) {
+      setPath(page, field.dataset.page as string, field);
+    }
+  }
+
+  private save() {
+    if (!this.event) return undefined;
+    this.savePage();
+    for (const field of this.dialog.querySelectorAll<FormField>('[data-event]')) {
+      setPath(this.event, field.dataset.event as string, field);
+    }
+    return this.event;
+  }
+}
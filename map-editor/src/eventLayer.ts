@@ -0,0 +1,170 @@
+import * as PIXI from 'pixi.js';
+import { isBigCharacter, isObjectCharacter, Tilemap, type EventImage, type MapEvent } from 'rm-common';
+
+/**
+ * The size of a cell in the events, the overlays and the tools of the map editor, which is the tile size of MV.
+ * They are scaled to the tile size of the map.
+ */
+export const CELL_SIZE = 48;
+
+/**
+ * Displays the events of a map with the graphic of their first page.
+ */
+export class EventLayer extends PIXI.Container {
+  /** The folder of character images */
+  public charactersPath = '';
+  /** The size of a tile in pixels, in the tileset and character images */
+  public tileSize = CELL_SIZE;
+
+  private _bitmaps: Array<PIXI.Texture | undefined> = [];
+  /** The textures of the tiles and character frames shown, by their image and frame, reused by each redraw */
+  private readonly frameTextures = new Map<PIXI.TextureSource, Map<string, PIXI.Texture>>();
+  /** Increased on each redraw, so that outdated image loads are dropped */
+  private generation = 0;
+
+  /**
+   * The tileset images, in the order of `tilesetNames`.
+   */
+  public get bitmaps() {
+    return this._bitmaps;
+  }
+
+  public set bitmaps(bitmaps) {
+    // The images of the previous tileset may be released
+    for (const bitmap of this._bitmaps) {
+      if (bitmap && !bitmaps.some((other) => other?.source === bitmap.source)) {
+        this.releaseFrameTextures(bitmap.source);
+      }
+    }
+    this._bitmaps = bitmaps;
+  }
+
+  /**
+   * Redraws all events.
+   */
+  public setEvents(events: Array<MapEvent | null> | undefined) {
+    this.generation++;
+    for (const child of this.removeChildren()) {
+      child.destroy({ children: true });
+    }
+    for (const event of events ?? []) {
+      if (event) {
+        this.addChild(this.createEvent(event));
+      }
+    }
+  }
+
+  private createEvent(event: MapEvent) {
+    const container = new PIXI.Container({ x: event.x * CELL_SIZE, y: event.y * CELL_SIZE });
+    const image = event.pages[0]?.image;
+
+    if (image && image.tileId > 0) {
+      const texture = this.getTileTexture(image.tileId);
+      if (texture) {
+        container.addChild(new PIXI.Sprite({ texture, width: CELL_SIZE, height: CELL_SIZE }));
+        return container;
+      }
+    } else if (image && image.characterName) {
+      const generation = this.generation;
+      const url = `${this.charactersPath}/${encodeURIComponent(image.characterName)}.png`;
+      PIXI.Assets.load<PIXI.Texture>(url)
+        .then((texture) => {
+          if (generation === this.generation && !container.destroyed) {
+            container.removeChildren();
+            container.addChild(this.createCharacterSprite(texture, image));
+          }
+        })
+        .catch(() => {
+          // Keep the outline if the image is missing
+        });
+      container.addChild(this.createOutline());
+      return container;
+    }
+
+    container.addChild(this.createOutline());
+    return container;
+  }
+
+  /**
+   * Creates the outline drawn for events without a graphic.
+   */
+  private createOutline() {
+    return new PIXI.Graphics()
+      .roundRect(4, 4, 40, 40, 6)
+      .fill({ color: 0x000000, alpha: 0.2 })
+      .stroke({ color: 0xffffff, width: 2, alignment: 1 });
+  }
+
+  /**
+   * Creates the sprite of a character, cropped to the cell as RPG Maker's editor does.
+   */
+  private createCharacterSprite(texture: PIXI.Texture, image: EventImage) {
+    const isBig = isBigCharacter(image.characterName);
+    const pw = texture.width / (isBig ? 3 : 12);
+    const ph = texture.height / (isBig ? 4 : 8);
+    const index = isBig ? 0 : image.characterIndex;
+    const bx = (index % 4) * 3;
+    const by = Math.floor(index / 4) * 4;
+    const sx = (bx + image.pattern) * pw;
+    const sy = (by + Math.floor((image.direction - 2) / 2)) * ph;
+    // Characters stand 6 pixels above the bottom of the cell, except objects
+    const shiftY = isObjectCharacter(image.characterName) ? 0 : 6;
+
+    // Crop the frame to the tile, keeping its horizontal center and the feet
+    const size = this.tileSize;
+    const w = Math.min(pw, size);
+    const h = Math.min(ph - shiftY, size);
+    const frame = new PIXI.Rectangle(sx + (pw - w) / 2, sy + ph - shiftY - h, w, h);
+    const sprite = new PIXI.Sprite(this.getFrameTexture(texture.source, frame));
+    const cellScale = CELL_SIZE / size;
+    sprite.scale.set(cellScale);
+    sprite.position.set(((size - w) / 2) * cellScale, (size - h) * cellScale);
+    return sprite;
+  }
+
+  /**
+   * Returns the texture of a tile of tab B to E or A5, which events can use as their graphic.
+   */
+  private getTileTexture(tileId: number) {
+    if (Tilemap.isAutotile(tileId)) {
+      return undefined;
+    }
+    const setNumber = Tilemap.isTileA5(tileId) ? 4 : 5 + Math.floor(tileId / 256);
+    const bitmap = this.bitmaps[setNumber];
+    if (!bitmap) {
+      return undefined;
+    }
+    const size = this.tileSize;
+    const sx = ((Math.floor(tileId / 128) % 2) * 8 + (tileId % 8)) * size;
+    const sy = (Math.floor((tileId % 256) / 8) % 16) * size;
+    return this.getFrameTexture(bitmap.source, new PIXI.Rectangle(sx, sy, size, size));
+  }
+
+  /**
+   * Returns the texture of a frame of the image, which is created once.
+   */
+  private getFrameTexture(source: PIXI.TextureSource, frame: PIXI.Rectangle) {
+    let textures = this.frameTextures.get(source);
+    if (!textures) {
+      textures = new Map();
+      this.frameTextures.set(source, textures);
+    }
+    const key = `${frame.x},${frame.y},${frame.width},${frame.height}`;
+    let texture = textures.get(key);
+    if (!texture) {
+      texture = new PIXI.Texture({ source, frame });
+      textures.set(key, texture);
+    }
+    return texture;
+  }
+
+  /**
+   * Destroys the textures of the frames of the image, leaving the image itself.
+   */
+  private releaseFrameTextures(source: PIXI.TextureSource) {
+    for (const texture of this.frameTextures.get(source)?.values() ?? []) {
+      texture.destroy();
+    }
+    this.frameTextures.delete(source);
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * Helpers binding the fields of a dialog to the properties of an object.
+ */
+
+export type FormField = HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement;
+
+/**
+ * Reads a value from an object by a dotted path, e.g. `conditions.switch1Id`.
+ */
+export function getPath(target: object, path: string): unknown {
+  return path.split('.').reduce<unknown>((value, key) => (value as Record<string, unknown> | undefined)?.[key], target);
+}
+
+/**
+ * Writes a value to an object by a dotted path, keeping the type of the current value.
+ */
+export function setPath(target: object, path: string, field: FormField) {
+  const keys = path.split('.');
+  const last = keys.pop() as string;
+  const parent = keys.reduce((value, key) => value[key] as Record<string, unknown>, target as Record<string, unknown>);
+  if (field instanceof HTMLInputElement && field.type === 'checkbox') {
+    parent[last] = field.checked;
+  } else if (typeof parent[last] === 'number') {
+    parent[last] = Math.floor(Number(field.value)) || 0;
+  } else {
+    parent[last] = field.value;
+  }
+}
+
+export function loadField(field: FormField, value: unknown) {
+  if (field instanceof HTMLInputElement && field.type === 'checkbox') {
+    field.checked = !!value;
+  } else {
+    field.value = `${value ?? ''}`;
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * The state of the layer panel.
+ */
+export type LayerSettings = {
+  /** Visibility of the tile layers 1 to 4 */
+  layers: boolean[];
+  /** Visibility of the tiles drawn above characters */
+  upper: boolean;
+  shadows: boolean;
+  regions: boolean;
+  events: boolean;
+  /** Passage and tile settings computed from the tileset flags */
+  passability: boolean;
+  /** `auto` places tiles following the rules of RPG Maker, and `manual` places them on the target layer */
+  mode: 'auto' | 'manual';
+  /** The layer tiles are placed on in manual mode, from 0 to 3 */
+  target: number;
+};
+
+/**
+ * Binds the controls of the layer panel to the settings, and calls `onChange` whenever they are changed.
+ */
+export function setupLayerPanel(settings: LayerSettings, onChange: () => void) {
+  const panel = document.querySelector('#layerPanel') as HTMLElement;
+
+  for (const input of panel.querySelectorAll<HTMLInputElement>('input[data-layer]')) {
+    const z = Number(input.dataset.layer);
+    input.checked = settings.layers[z];
+    input.addEventListener('change', () => {
+      settings.layers[z] = input.checked;
+      onChange();
+    });
+  }
+
+  for (const input of panel.querySelectorAll<HTMLInputElement>('input[data-visible]')) {
+    const key = input.dataset.visible as 'upper' | 'shadows' | 'regions' | 'events' | 'passability';
+    input.checked = settings[key];
+    input.addEventListener('change', () => {
+      settings[key] = input.checked;
+      onChange();
+    });
+  }
+
+  const targetSelect = panel.querySelector('#targetLayer') as HTMLSelectElement;
+  targetSelect.value = `${settings.target}`;
+  targetSelect.disabled = settings.mode !== 'manual';
+  targetSelect.addEventListener('change', () => {
+    settings.target = Number(targetSelect.value);
+    onChange();
+  });
+
+  for (const input of panel.querySelectorAll<HTMLInputElement>('input[name="layerMode"]')) {
+    input.checked = input.value === settings.mode;
+    input.addEventListener('change', () => {
+      if (input.checked) {
+        settings.mode = input.value as LayerSettings['mode'];
+        targetSelect.disabled = settings.mode !== 'manual';
+        onChange();
+      }
+    });
+  }
+}
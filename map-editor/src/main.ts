@@ -1,25 +1,178 @@
 import * as PIXI from 'pixi.js';
-import { requireRpgMaker, ShaderTilemap, type AssetPaths, type MapData } from 'rm-common';
+import {
+  checkReachability,
+  getBrushTile,
+  getEllipsePoints,
+  getFillPoints,
+  getLinePoints,
+  getPlacementLayer,
+  getRectanglePoints,
+  getTransferTargets,
+  isToMapEditorMessage,
+  placeTile,
+  placeTileOnLayer,
+  RequestClient,
+  requireRpgMaker,
+  resizeMap,
+  ShaderTilemap,
+  type AssetPaths,
+  type Brush,
+  type FromMapEditorMessage,
+  type MapAreaEdit,
+  type MapCellChange,
+  type MapEditorRequest,
+  type MapEditorResults,
+  type MapData,
+  type MapPoint,
+  type TransferTarget
+} from 'rm-common';
+import { EventEditor } from './eventEditor';
+import { EventForm } from './eventForm';
+import { CELL_SIZE, EventLayer } from './eventLayer';
+import { setupLayerPanel, type LayerSettings } from './layerPanel';
+import { MapForm, type MapProperties } from './mapForm';
+import { PassabilityOverlay } from './passabilityOverlay';
+import { PathTool } from './pathTool';
+import { ReachabilityOverlay } from './reachabilityOverlay';
+import { RegionOverlay } from './regionOverlay';
+import { SelectionTool } from './selectionTool';
 
 const vscode = (globalThis as any).acquireVsCodeApi ? acquireVsCodeApi() : null;
+
+function postMessage(message: FromMapEditorMessage) {
+  vscode?.postMessage(message);
+}
+
+/** Sends the requests of the map editor to the extension */
+const requests = new RequestClient<MapEditorRequest, MapEditorResults>(postMessage);
 const _app = new PIXI.Application();
 const rpgMakerLoader = requireRpgMaker();
 let stage: PIXI.Container;
 let tilemap: ShaderTilemap;
+let mapData: MapData;
+/**
+ * The container of everything drawn on top of the tilemap, in map coordinates.
+ * It is drawn with cells of `CELL_SIZE` pixels, and scaled to the tile size of the project.
+ */
+let world: PIXI.Container;
+let regionOverlay: RegionOverlay;
+let passabilityOverlay: PassabilityOverlay;
+let eventLayer: EventLayer;
+let eventEditor: EventEditor;
+let selectionTool: SelectionTool;
+let reachabilityOverlay: ReachabilityOverlay;
+let pathTool: PathTool;
+let mapForm: MapForm;
+let eventForm: EventForm;
+/** The `mode` of the tileset in Tilesets.json */
+let tilesetMode = 0;
+
+const layerSettings: LayerSettings = {
+  layers: [true, true, true, true],
+  upper: true,
+  shadows: true,
+  regions: false,
+  events: true,
+  passability: false,
+  mode: 'auto',
+  target: 0
+};
 
-// const scale = Number(getOptionValue('scale') || 1);
-// const resolution = Number(getOptionValue('resolution') || window.devicePixelRatio);
-// const ratio = window.devicePixelRatio / resolution;
-const scale = 1;
+/** The number of map pixels per screen pixel, i.e. the inverse of the zoom level */
+let scale = 1;
 const resolution = window.devicePixelRatio;
+const minZoom = 0.25;
+const maxZoom = 4;
 
 function resizeTilemap() {
   if (!tilemap) return;
+  tilemap.roundPixels = scale === 1;
   tilemap.width = (_app.renderer.width + 2 * tilemap.margin) * scale;
   tilemap.height = (_app.renderer.height + 2 * tilemap.margin) * scale;
   stage.scale.x = 1.0 / scale;
   stage.scale.y = 1.0 / scale;
   stage.filterArea = new PIXI.Rectangle(0, 0, _app.renderer.width * scale, _app.renderer.height * scale);
+  scrollTo(tilemap.origin.x, tilemap.origin.y);
+}
+
+/**
+ * Scrolls the view so that the map point (x, y) is at the top-left corner.
+ * Only the tiles inside the view are painted.
+ */
+function scrollTo(x: number, y: number) {
+  const maxX = Math.max(0, mapData.width * tilemap.tileWidth - _app.screen.width * scale);
+  const maxY = Math.max(0, mapData.height * tilemap.tileHeight - _app.screen.height * scale);
+  x = Math.round(Math.min(Math.max(x, 0), maxX));
+  y = Math.round(Math.min(Math.max(y, 0), maxY));
+  tilemap.origin = { x, y };
+  tilemap._repaint(false);
+  world.position.set(-x, -y);
+  // The overlays also draw only the cells in view
+  const left = Math.floor(x / tilemap.tileWidth);
+  const top = Math.floor(y / tilemap.tileHeight);
+  const view = new PIXI.Rectangle(
+    left,
+    top,
+    Math.ceil((x + _app.screen.width * scale) / tilemap.tileWidth) - left,
+    Math.ceil((y + _app.screen.height * scale) / tilemap.tileHeight) - top
+  );
+  regionOverlay.setView(view);
+  passabilityOverlay.setView(view);
+}
+
+/**
+ * Sets the zoom level, keeping the map point under the screen point (anchorX, anchorY) in place.
+ */
+function setZoom(zoom: number, anchorX = 0, anchorY = 0) {
+  const newScale = 1.0 / Math.min(Math.max(zoom, minZoom), maxZoom);
+  const mapX = anchorX * scale + tilemap.origin.x;
+  const mapY = anchorY * scale + tilemap.origin.y;
+  scale = newScale;
+  resizeTilemap();
+  scrollTo(mapX - anchorX * scale, mapY - anchorY * scale);
+}
+
+/**
+ * Zooms so that the whole map fits in the window.
+ */
+function fitToWindow() {
+  setZoom(
+    Math.min(
+      _app.screen.width / (mapData.width * tilemap.tileWidth),
+      _app.screen.height / (mapData.height * tilemap.tileHeight)
+    )
+  );
+  scrollTo(0, 0);
+}
+
+/**
+ * Converts a point on the screen to the quarter tile it is on.
+ */
+function toQuarterPoint(globalX: number, globalY: number) {
+  return new PIXI.Point(
+    Math.floor((globalX * scale + tilemap.origin.x) / (tilemap.tileWidth / 2)),
+    Math.floor((globalY * scale + tilemap.origin.y) / (tilemap.tileHeight / 2))
+  );
+}
+
+/**
+ * Converts a point on the screen to the tile it is on.
+ */
+function toMapPoint(globalX: number, globalY: number) {
+  return new PIXI.Point(
+    Math.floor((globalX * scale + tilemap.origin.x) / tilemap.tileWidth),
+    Math.floor((globalY * scale + tilemap.origin.y) / tilemap.tileHeight)
+  );
+}
+
+/**
+ * Whether the key event goes to a field of the toolbar or of a dialog, where keys such as Space are typed.
+ */
+function isFormField(target: EventTarget | null) {
+  return (
+    target instanceof HTMLElement &&
+    (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))
+  );
 }
 
 // function resize(width: number, height: number) {
@@ -31,21 +184,14 @@ function resizeTilemap() {
 // }
 
 let assetPaths: string = '';
+let assetData: AssetPaths;
 
 async function setupView() {
-  const assetData = JSON.parse(assetPaths) as AssetPaths;
-  const mapData = (await PIXI.Assets.load(assetData.map)) as MapData;
-  const [width, height] = [mapData.width * 48, mapData.height * 48];
-
   const backCanvas = document.querySelector('#backCanvas') as HTMLCanvasElement;
-  backCanvas.style.width = `${width}px`;
-  backCanvas.style.height = `${height}px`;
 
+  // The canvas always fits the window. Large maps are scrolled instead.
   await _app.init({
-    // width: backCanvas.width,
-    // height: backCanvas.height,
-    width,
-    height,
+    resizeTo: window,
     canvas: backCanvas,
     resolution,
     antialias: true,
@@ -54,51 +200,688 @@ async function setupView() {
 }
 
 const mapPoint = new PIXI.Point();
+const quarterPoint = new PIXI.Point(-1, -1);
+
+type Tool = 'pen' | 'line' | 'rectangle' | 'ellipse' | 'fill' | 'shadow' | 'event' | 'select' | 'path';
+
+/** The tool selected in the toolbar */
+let tool: Tool = 'pen';
+/** The tiles selected in the Map Tiles view */
+let brush: Brush = { width: 1, height: 1, tileIds: [0] };
+/** Whether the pen, line, rectangle, ellipse and fill tools paint the region ID instead of the brush */
+let paintingRegions = false;
+/** The region ID painted when `paintingRegions` is set */
+let brushRegionId = 1;
+let painting = false;
+/** Whether the current stroke erases instead of painting */
+let erasing = false;
+/** Changes made by the current stroke, sent as a single edit when the stroke ends */
+let strokeChanges: Array<MapCellChange> = [];
+/** Whether the current shadow pen stroke adds shadows. Decided by the first quarter it touches. */
+let shadowStrokeValue: boolean | undefined;
+/** Where the current stroke started. Multi-tile brushes repeat their pattern from here. */
+const strokeStart = new PIXI.Point();
+/** The last cell painted by the pen */
+const lastPenPoint = new PIXI.Point();
+/** The preview of the shape drawn by the line, rectangle and ellipse tools */
+let shapePreview: PIXI.Graphics;
+
+function setupToolbar() {
+  const buttons = document.querySelectorAll<HTMLButtonElement>('#toolbar [data-tool]');
+  for (const button of buttons) {
+    button.addEventListener('click', () => {
+      tool = button.dataset.tool as Tool;
+      if (tool !== 'select') {
+        selectionTool?.cancel();
+      }
+      for (const other of buttons) {
+        other.classList.toggle('active', other === button);
+      }
+      applyLayerVisibility();
+    });
+  }
+
+  const paintRegionsInput = document.querySelector('#paintRegions') as HTMLInputElement;
+  paintRegionsInput.addEventListener('change', () => {
+    paintingRegions = paintRegionsInput.checked;
+    applyLayerVisibility();
+  });
+  const regionInput = document.querySelector('#regionId') as HTMLInputElement;
+  regionInput.value = `${brushRegionId}`;
+  regionInput.addEventListener('change', () => {
+    brushRegionId = Math.min(Math.max(Math.floor(Number(regionInput.value)) || 0, 0), 255);
+    regionInput.value = `${brushRegionId}`;
+  });
+
+  const selectEventsInput = document.querySelector('#selectEvents') as HTMLInputElement;
+  selectEventsInput.addEventListener('change', () => {
+    selectionTool.withEvents = selectEventsInput.checked;
+  });
+
+  mapForm = new MapForm();
+  document.querySelector('#mapProperties')?.addEventListener('click', () => editMapProperties());
+}
+
+/**
+ * Opens the properties of the map, and sends the edited map to the extension as one undoable edit.
+ * The tiles and the events are moved when the map is resized.
+ */
+async function editMapProperties() {
+  if (!tilemap) return;
+  const tilesets = await rpgMakerLoader.loadTilesets();
+  // The encounter list works without the troop names, e.g. if Troops.json cannot be read
+  const troops = await requests.request({ type: 'getTroops' }).catch(() => []);
+  const result = await mapForm.open(mapData as MapProperties, tilesets, troops);
+  if (!result) return;
+  let map = result.map;
+  if (result.width !== map.width || result.height !== map.height) {
+    const resized = resizeMap(map, result.width, result.height, result.anchor);
+    map = resized.map;
+    if (resized.removedEventIds.length > 0) {
+      postMessage({
+        type: 'showWarning',
+        text: `${resized.removedEventIds.length} event(s) outside of the resized map were deleted.`
+      });
+    }
+  }
+  postMessage({ type: 'editMap', map });
+}
+
+/**
+ * Returns the URLs of the images of a tileset in Tilesets.json.
+ */
+function getTilesetImages(tilesetNames: Array<string>) {
+  return tilesetNames.map((name) => (name ? `${assetData.tilesetImages}/${encodeURIComponent(name)}.png` : ''));
+}
+
+/** Counts the tilemaps requested by `reloadTilemap`, so that only the latest one is shown */
+let tilemapRequest = 0;
+
+/**
+ * Replaces the tilemap with one using the tileset of the map, after its `tilesetId` is changed,
+ * or after `Tilesets.json` or the tileset images are changed on disk.
+ * The view keeps its scroll position, and the overlays use the flags of the new tileset.
+ */
+async function reloadTilemap() {
+  const request = ++tilemapRequest;
+  const tilesetId = mapData.tilesetId;
+  const tilesets = await rpgMakerLoader.loadTilesets();
+  const tileset = tilesets[tilesetId];
+  if (!tileset) {
+    postMessage({ type: 'showWarning', text: `Tileset ${tilesetId} does not exist in Tilesets.json.` });
+    return;
+  }
+  const newTilemap = await rpgMakerLoader.loadTileset(mapData, getTilesetImages(tileset.tilesetNames), tileset.flags);
+  if (request !== tilemapRequest) {
+    // Requested again while the images were loading
+    newTilemap.destroy();
+    return;
+  }
+  // The map may also have changed while loading
+  newTilemap.setData(mapData.width, mapData.height, mapData.data);
+  newTilemap.origin = tilemap.origin;
+  stage.removeChild(tilemap);
+  tilemap.destroy();
+  tilemap = stage.addChildAt(newTilemap, 0);
+  tilesetMode = tileset.mode ?? 0;
+
+  eventLayer.bitmaps = tilemap.bitmaps;
+  eventLayer.setEvents(mapData.events);
+  passabilityOverlay.setMap(mapData, tilemap.flags);
+  selectionTool.tilemap = tilemap;
+  pathTool.flags = tilemap.flags;
+  pathTool.refresh();
+  updateReachability();
+  applyLayerVisibility();
+  resizeTilemap();
+  tilemap.refresh();
+  await rpgMakerLoader.releaseStale();
+}
+
+/**
+ * Shows or hides the layers of the tilemap and the overlays following the layer panel.
+ */
+function applyLayerVisibility() {
+  if (!tilemap) return;
+  for (let z = 0; z < 4; z++) {
+    tilemap.lowerLayer[z].visible = layerSettings.layers[z];
+    tilemap.upperLayer[z].visible = layerSettings.layers[z] && layerSettings.upper;
+  }
+  tilemap.shadowLayer.visible = layerSettings.shadows;
+  eventLayer.visible = layerSettings.events;
+  // Regions are always shown while editing them
+  regionOverlay.visible = layerSettings.regions || paintingRegions;
+  regionOverlay.update();
+  passabilityOverlay.visible = layerSettings.passability;
+  passabilityOverlay.update();
+  eventEditor.visible = tool === 'event';
+  selectionTool.visible = tool === 'select';
+  pathTool.visible = tool === 'path';
+}
+
+/**
+ * Paints a tile at the given map point as a part of the current stroke.
+ * The tilemap is refreshed by the caller, once for all painted cells.
+ */
+function paintAt(x: number, y: number, tileId: number) {
+  const changes =
+    layerSettings.mode === 'auto'
+      ? placeTile(mapData, x, y, tileId, tilesetMode)
+      : placeTileOnLayer(mapData, x, y, layerSettings.target, tileId);
+  strokeChanges.push(...changes);
+}
+
+/**
+ * Paints the brush on the cells, repeating its pattern from the start of the stroke.
+ * When painting regions, the region ID is painted instead, or erased by a stroke of the right button.
+ */
+function paintPoints(points: Array<MapPoint>) {
+  if (paintingRegions) {
+    for (const { x, y } of points) {
+      paintRegionAt(x, y, erasing ? 0 : brushRegionId);
+    }
+    return;
+  }
+  for (const { x, y } of points) {
+    paintAt(x, y, getBrushTile(brush, strokeStart.x, strokeStart.y, x, y));
+  }
+  tilemap.refresh();
+}
+
+/**
+ * Paints the pen from the last painted cell to (x, y).
+ * Multi-tile brushes are stamped as a whole, on a grid aligned with the start of the stroke.
+ */
+function penTo(x: number, y: number) {
+  const { width, height } = paintingRegions ? { width: 1, height: 1 } : brush;
+  const points = new Map<string, MapPoint>();
+  for (const point of getLinePoints(lastPenPoint.x, lastPenPoint.y, x, y)) {
+    const left = strokeStart.x + Math.floor((point.x - strokeStart.x) / width) * width;
+    const top = strokeStart.y + Math.floor((point.y - strokeStart.y) / height) * height;
+    for (let dy = 0; dy < height; dy++) {
+      for (let dx = 0; dx < width; dx++) {
+        points.set(`${left + dx},${top + dy}`, { x: left + dx, y: top + dy });
+      }
+    }
+  }
+  lastPenPoint.set(x, y);
+  paintPoints([...points.values()]);
+}
+
+/**
+ * Returns the cells of the shape from the start of the stroke to (x, y) for the line, rectangle and ellipse tools.
+ */
+function getShapePoints(x: number, y: number) {
+  switch (tool) {
+    case 'line':
+      return getLinePoints(strokeStart.x, strokeStart.y, x, y);
+    case 'rectangle':
+      return getRectanglePoints(strokeStart.x, strokeStart.y, x, y);
+    case 'ellipse':
+      return getEllipsePoints(strokeStart.x, strokeStart.y, x, y);
+    default:
+      return [];
+  }
+}
+
+function updateShapePreview(points: Array<MapPoint>) {
+  shapePreview.clear();
+  for (const { x, y } of points) {
+    shapePreview.rect(x * CELL_SIZE, y * CELL_SIZE, CELL_SIZE, CELL_SIZE);
+  }
+  if (points.length > 0) {
+    shapePreview.fill({ color: 0xffffff, alpha: 0.4 }).stroke({ color: 0x111111, alpha: 0.9, width: 1 });
+  }
+}
+
+/**
+ * Fills the contiguous area of the same tile around (x, y).
+ * The area is found on the layer the brush is placed on, or on the region layer when painting regions.
+ */
+function fillAt(x: number, y: number) {
+  const z = paintingRegions
+    ? 5
+    : layerSettings.mode === 'auto'
+      ? getPlacementLayer(brush.tileIds[0] ?? 0, tilesetMode)
+      : layerSettings.target;
+  paintPoints(getFillPoints(mapData, x, y, z));
+}
+
+/**
+ * Paints the region ID at the given map point as a part of the current stroke.
+ * Region IDs are stored in layer 6.
+ */
+function paintRegionAt(x: number, y: number, regionId: number) {
+  if (x < 0 || x >= mapData.width || y < 0 || y >= mapData.height) {
+    return;
+  }
+  const index = (5 * mapData.height + y) * mapData.width + x;
+  if ((mapData.data[index] ?? 0) === regionId) {
+    return;
+  }
+  mapData.data[index] = regionId;
+  regionOverlay.updateCells([{ x, y }]);
+  strokeChanges.push({ x, y, z: 5, tileId: regionId });
+}
+
+/**
+ * Toggles the shadow of the quarter tile (qx, qy) as a part of the current stroke.
+ * Shadows are stored in the lower 4 bits of layer 4, one bit for each quarter.
+ */
+function paintShadowAt(qx: number, qy: number) {
+  const x = Math.floor(qx / 2);
+  const y = Math.floor(qy / 2);
+  if (x < 0 || x >= mapData.width || y < 0 || y >= mapData.height) {
+    return;
+  }
+  const index = (4 * mapData.height + y) * mapData.width + x;
+  const bit = 1 << ((qy % 2) * 2 + (qx % 2));
+  const bits = mapData.data[index] ?? 0;
+  shadowStrokeValue ??= !(bits & bit);
+  const newBits = shadowStrokeValue ? bits | bit : bits & ~bit;
+  if (newBits === bits) {
+    return;
+  }
+  mapData.data[index] = newBits;
+  tilemap.refresh();
+  strokeChanges.push({ x, y, z: 4, tileId: newBits });
+}
+
+/**
+ * Ends the current stroke and sends its changes back to the extension as one undoable edit.
+ */
+function endStroke() {
+  if (painting && (tool === 'line' || tool === 'rectangle' || tool === 'ellipse')) {
+    paintPoints(getShapePoints(mapPoint.x, mapPoint.y));
+    updateShapePreview([]);
+  }
+  painting = false;
+  erasing = false;
+  shadowStrokeValue = undefined;
+  if (strokeChanges.length > 0) {
+    passabilityOverlay.updateCells(strokeChanges);
+    postMessage({
+      type: 'editCells',
+      changes: strokeChanges
+    });
+    strokeChanges = [];
+  }
+}
+
+/**
+ * The reachability check requested by the extension, redone whenever the map changes.
+ */
+type ReachabilityCheck = {
+  start: MapPoint;
+  mapId: number;
+  mapName: string;
+  /** The transfer targets in this map found in the events of the other maps */
+  otherTransfers: Array<TransferTarget>;
+};
+
+let reachabilityCheck: ReachabilityCheck | undefined;
+
+/**
+ * Checks which events and transfer targets the player can reach from the start of the check, and shows them.
+ * With `report`, the events and the targets which cannot be reached are listed in a notification.
+ */
+function updateReachability(report = false) {
+  if (!reachabilityCheck) {
+    reachabilityOverlay.clear();
+    return;
+  }
+  const { start, mapId, mapName, otherTransfers } = reachabilityCheck;
+  const transfers = [...getTransferTargets(mapData.events, mapId, mapName), ...otherTransfers];
+  const result = checkReachability(mapData, tilemap.flags, start.x, start.y, transfers);
+  reachabilityOverlay.show(mapData, start, result);
+  if (!report) return;
+
+  const problems = [
+    ...result.unreachableEvents.map((event) => `${event.name} (${event.x},${event.y})`),
+    ...result.unreachableTransfers.map((target) => `(${target.x},${target.y}) from ${target.source}`)
+  ];
+  if (problems.length === 0) {
+    postMessage({ type: 'showInformation', text: 'All events and transfer targets can be reached.' });
+  } else {
+    postMessage({
+      type: 'showWarning',
+      text: `The player cannot reach ${problems.length} event(s) or transfer target(s): ${problems.join(', ')}`
+    });
+  }
+}
+
+/**
+ * Redraws the overlays and the tools after the map data is changed by the extension.
+ */
+function refreshMapViews() {
+  eventLayer.setEvents(mapData.events);
+  eventEditor.mapData = mapData;
+  eventEditor.refresh();
+  selectionTool.mapData = mapData;
+  selectionTool.refresh();
+  pathTool.mapData = mapData;
+  pathTool.refresh();
+  updateReachability();
+}
+
+/**
+ * Replaces the map data with the content of the document, e.g. after undo/redo.
+ */
+function applyDocument(text: string) {
+  if (!tilemap) return;
+  const newData = JSON.parse(text) as MapData;
+  const tilesetChanged = newData.tilesetId !== mapData.tilesetId;
+  mapData = newData;
+  tilemap.setData(newData.width, newData.height, newData.data);
+  tilemap.refresh();
+  regionOverlay.setMap(mapData);
+  passabilityOverlay.setMap(mapData, tilemap.flags);
+  refreshMapViews();
+  scrollTo(tilemap.origin.x, tilemap.origin.y);
+  if (tilesetChanged) {
+    reloadTilemap();
+  }
+}
+
+/**
+ * Applies the cells and the events changed in the document, e.g. by another editor of the same map.
+ * Only the changed cells are updated, and the tilemap is repainted only if one of them is in view.
+ * Changes this editor made itself are already in the map data, and are skipped.
+ */
+function applyDelta(delta: MapAreaEdit) {
+  if (!tilemap) return;
+  // The paste preview is drawn from a copy of the map data, which would not show the changed cells
+  selectionTool.cancel();
+  const { width, height, data } = mapData;
+  const changed = delta.changes.filter(({ x, y, z, tileId }) => {
+    const index = (z * height + y) * width + x;
+    if (x < 0 || x >= width || y < 0 || y >= height || data[index] === tileId) {
+      return false;
+    }
+    data[index] = tileId;
+    return true;
+  });
+  const events = (mapData.events ??= [null]);
+  for (const event of delta.events) {
+    while (events.length <= event.id) {
+      events.push(null);
+    }
+    events[event.id] = event;
+  }
+  for (const id of delta.deletedEventIds) {
+    if (events[id]) {
+      events[id] = null;
+    }
+  }
+  if (changed.length === 0 && delta.events.length === 0 && delta.deletedEventIds.length === 0) {
+    return;
+  }
+  tilemap.refreshCells(changed);
+  regionOverlay.updateCells(changed.filter(({ z }) => z === 5));
+  passabilityOverlay.updateCells(changed);
+  refreshMapViews();
+}
 
 async function setupGame() {
-  const assetData = JSON.parse(assetPaths) as AssetPaths;
-  const mapData = (await PIXI.Assets.load(assetData.map)) as MapData;
-  const map = await rpgMakerLoader.load(mapData, assetData, true);
+  assetData = JSON.parse(assetPaths) as AssetPaths;
+  mapData = (await PIXI.Assets.load(assetData.map)) as MapData;
+  const map = await rpgMakerLoader.load(mapData, assetData);
+  const tilesets = await rpgMakerLoader.loadTilesets();
+  tilesetMode = tilesets[mapData.tilesetId]?.mode ?? 0;
 
   tilemap = map;
-  tilemap.roundPixels = scale === 1;
   tilemap.origin = { x: 0, y: 0 };
   stage = new PIXI.Container();
   stage.addChild(tilemap);
+  world = stage.addChild(new PIXI.Container());
+  world.scale.set(tilemap.tileWidth / CELL_SIZE, tilemap.tileHeight / CELL_SIZE);
+  eventLayer = world.addChild(new EventLayer());
+  eventLayer.tileSize = tilemap.tileWidth;
+  eventLayer.charactersPath = assetData.characters ?? '';
+  eventLayer.bitmaps = tilemap.bitmaps;
+  eventLayer.setEvents(mapData.events);
+  regionOverlay = world.addChild(new RegionOverlay());
+  regionOverlay.setMap(mapData);
+  passabilityOverlay = world.addChild(new PassabilityOverlay());
+  passabilityOverlay.setMap(mapData, tilemap.flags);
+  reachabilityOverlay = world.addChild(new ReachabilityOverlay());
+  shapePreview = world.addChild(new PIXI.Graphics());
+  pathTool = world.addChild(new PathTool());
+  pathTool.mapData = mapData;
+  pathTool.flags = tilemap.flags;
+  eventForm = new EventForm();
+  eventEditor = world.addChild(
+    new EventEditor(eventForm, (change) => {
+      eventLayer.setEvents(mapData.events);
+      postMessage(change);
+    })
+  );
+  eventEditor.mapData = mapData;
+  selectionTool = world.addChild(
+    new SelectionTool({
+      onEdit: (edit) => {
+        regionOverlay.updateCells(edit.changes.filter(({ z }) => z === 5));
+        passabilityOverlay.updateCells(edit.changes);
+        eventLayer.setEvents(mapData.events);
+        postMessage({ type: 'editCells', ...edit });
+      },
+      onCopy: (clip) => postMessage({ type: 'copy', clip }),
+      onWarning: (text) => postMessage({ type: 'showWarning', text })
+    })
+  );
+  selectionTool.mapData = mapData;
+  selectionTool.tilemap = tilemap;
+  applyLayerVisibility();
+  setupLayerPanel(layerSettings, applyLayerVisibility);
   _app.stage = stage;
 
   resizeTilemap();
-  // resize(mapData.width * 48, mapData.height * 48);
+  _app.renderer.on('resize', resizeTilemap);
+
+  // Zoom with the mouse wheel or pinch, and scroll with Shift + wheel
+  _app.canvas.addEventListener(
+    'wheel',
+    (e) => {
+      e.preventDefault();
+      if (e.shiftKey) {
+        scrollTo(tilemap.origin.x + e.deltaX * scale, tilemap.origin.y + e.deltaY * scale);
+      } else {
+        setZoom(Math.pow(1.0015, -e.deltaY) / scale, e.offsetX, e.offsetY);
+      }
+    },
+    { passive: false }
+  );
+
+  // Pan with the middle button, or the left button while holding Space
+  let spaceDown = false;
+  let panStart: PIXI.Point | undefined;
+  window.addEventListener('keydown', (e) => {
+    if (e.code === 'Space' && !e.repeat && !isFormField(e.target) && !mapForm.isOpen && !eventForm.isOpen) {
+      spaceDown = true;
+      _app.canvas.style.cursor = 'grab';
+    }
+  });
+  window.addEventListener('keyup', (e) => {
+    if (e.code === 'Space') {
+      spaceDown = false;
+      _app.canvas.style.cursor = '';
+    }
+  });
+  const endPan = () => {
+    panStart = undefined;
+  };
+
+  // Edit events with the mouse and the keyboard in the event tool
+  _app.canvas.addEventListener('dblclick', (e) => {
+    if (tool !== 'event') return;
+    const pos = toMapPoint(e.offsetX, e.offsetY);
+    eventEditor.edit(pos.x, pos.y);
+  });
+  window.addEventListener('keydown', (e) => {
+    if (mapForm.isOpen) return;
+    if (tool === 'event' && eventEditor.keyDown(e, mapPoint)) {
+      e.preventDefault();
+    } else if (tool === 'select' && selectionTool.keyDown(e, mapPoint)) {
+      e.preventDefault();
+    } else if (tool === 'path' && pathTool.keyDown(e)) {
+      e.preventDefault();
+    }
+  });
 
   // Create the select rect for TEMP use
-  const selectRect = _app.stage.addChild(
+  const selectRect = world.addChild(
     new PIXI.Graphics()
-      .rect(0, 0, 48, 48)
+      .rect(0, 0, CELL_SIZE, CELL_SIZE)
       .fill({ color: 0xffffff, alpha: 0.4 })
       .stroke({ color: 0x111111, alpha: 0.9, width: 1 })
   );
 
   _app.ticker.add(update);
+  _app.canvas.addEventListener('contextmenu', (e) => e.preventDefault());
 
   // Follow the pointer
   _app.stage.eventMode = 'static';
   _app.stage.hitArea = _app.screen;
   _app.stage.addEventListener('pointermove', (e) => {
-    const newPos = new PIXI.Point(Math.floor(e.globalX / 48.0), Math.floor(e.globalY / 48.0));
+    if (panStart) {
+      scrollTo(
+        tilemap.origin.x - (e.globalX - panStart.x) * scale,
+        tilemap.origin.y - (e.globalY - panStart.y) * scale
+      );
+      panStart.set(e.globalX, e.globalY);
+    }
+    const newQuarter = toQuarterPoint(e.globalX, e.globalY);
+    if (!newQuarter.equals(quarterPoint)) {
+      quarterPoint.copyFrom(newQuarter);
+      if (painting && tool === 'shadow') {
+        paintShadowAt(quarterPoint.x, quarterPoint.y);
+      }
+    }
+    const newPos = toMapPoint(e.globalX, e.globalY);
     if (!newPos.equals(mapPoint)) {
       mapPoint.copyFrom(newPos);
       // Move the cursor
-      selectRect.position.set(mapPoint.x * 48.0, mapPoint.y * 48.0);
+      selectRect.position.set(mapPoint.x * CELL_SIZE, mapPoint.y * CELL_SIZE);
       // Post message
-      vscode?.postMessage({
+      postMessage({
         type: 'setCursorPos',
         x: mapPoint.x,
         y: mapPoint.y
       });
+      if (tool === 'event') {
+        eventEditor.pointerMove(mapPoint.x, mapPoint.y);
+      } else if (tool === 'select') {
+        selectionTool.pointerMove(mapPoint.x, mapPoint.y);
+      } else if (tool === 'path') {
+        pathTool.pointerMove(mapPoint.x, mapPoint.y);
+      } else if (painting && tool === 'pen') {
+        penTo(mapPoint.x, mapPoint.y);
+      } else if (painting && (tool === 'line' || tool === 'rectangle' || tool === 'ellipse')) {
+        updateShapePreview(getShapePoints(mapPoint.x, mapPoint.y));
+      }
     }
   });
+  _app.stage.addEventListener('pointerdown', (e) => {
+    if (e.button === 1 || (e.button === 0 && spaceDown)) {
+      panStart = new PIXI.Point(e.globalX, e.globalY);
+      return;
+    }
+    // Erase regions with the right button
+    const erasingRegions =
+      e.button === 2 &&
+      paintingRegions &&
+      (tool === 'pen' || tool === 'line' || tool === 'rectangle' || tool === 'ellipse' || tool === 'fill');
+    if (e.button !== 0 && !erasingRegions) return;
+    if (tool === 'event') {
+      const pos = toMapPoint(e.globalX, e.globalY);
+      eventEditor.pointerDown(pos.x, pos.y);
+      return;
+    }
+    if (tool === 'select') {
+      const pos = toMapPoint(e.globalX, e.globalY);
+      selectionTool.pointerDown(pos.x, pos.y);
+      return;
+    }
+    if (tool === 'path') {
+      const pos = toMapPoint(e.globalX, e.globalY);
+      pathTool.pointerDown(pos.x, pos.y);
+      return;
+    }
+    painting = true;
+    erasing = erasingRegions;
+    const pos = toMapPoint(e.globalX, e.globalY);
+    strokeStart.copyFrom(pos);
+    if (tool === 'shadow') {
+      const quarter = toQuarterPoint(e.globalX, e.globalY);
+      paintShadowAt(quarter.x, quarter.y);
+    } else if (tool === 'fill') {
+      fillAt(pos.x, pos.y);
+    } else if (tool === 'pen') {
+      lastPenPoint.copyFrom(pos);
+      penTo(pos.x, pos.y);
+    } else {
+      updateShapePreview(getShapePoints(pos.x, pos.y));
+    }
+  });
+  _app.stage.addEventListener('pointerup', endStroke);
+  _app.stage.addEventListener('pointerupoutside', endStroke);
+  _app.stage.addEventListener('pointerup', (e) => {
+    if (tool === 'event') {
+      const pos = toMapPoint(e.globalX, e.globalY);
+      eventEditor.pointerUp(pos.x, pos.y);
+    } else if (tool === 'select') {
+      selectionTool.pointerUp();
+    }
+  });
+  _app.stage.addEventListener('pointerup', endPan);
+  _app.stage.addEventListener('pointerupoutside', endPan);
 }
 
+// Receive message from the extension.
+window.addEventListener('message', (e) => {
+  const message: unknown = e.data;
+  // Messages which do not follow the protocol are ignored
+  if (!isToMapEditorMessage(message)) return;
+  switch (message.type) {
+    case 'response':
+      requests.handleResponse(message);
+      return;
+    case 'setBrush':
+      brush = message.brush;
+      return;
+    case 'update':
+      applyDocument(message.text);
+      return;
+    case 'updateCells':
+      applyDelta(message);
+      return;
+    case 'setClipboard':
+      selectionTool?.setClipboard(message.clip);
+      return;
+    case 'fitToWindow':
+      if (tilemap) fitToWindow();
+      return;
+    case 'reloadTileset':
+      if (!tilemap) return;
+      rpgMakerLoader.bustCache();
+      reloadTilemap();
+      return;
+    case 'resetZoom':
+      if (tilemap) setZoom(1);
+      return;
+    case 'checkReachability':
+      if (!tilemap) return;
+      reachabilityCheck = message.start && {
+        start: message.start,
+        mapId: message.mapId,
+        mapName: message.mapName,
+        otherTransfers: message.otherMaps.flatMap((map) => getTransferTargets(map.events, message.mapId, map.name))
+      };
+      updateReachability(true);
+      return;
+  }
+});
+
 let initRefreshed = false;
 
 function update(ticker: PIXI.Ticker) {
@@ -107,9 +890,10 @@ function update(ticker: PIXI.Ticker) {
   if (stage) {
     tilemap.updateDelta(dt);
     if (!initRefreshed) {
-      tilemap.origin = { x: 1, y: 1 };
+      const { x, y } = tilemap.origin;
+      tilemap.origin = { x: x + 1, y: y + 1 };
       tilemap.refresh();
-      tilemap.origin = { x: 0, y: 0 };
+      tilemap.origin = { x, y };
       tilemap.refresh();
       initRefreshed = true;
     }
@@ -131,9 +915,13 @@ function update(ticker: PIXI.Ticker) {
           "rpgmaker/img/tilesets/Outside_B.png",
           "rpgmaker/img/tilesets/Outside_C.png",
           "",
-          ""]}`;
+          ""],
+        "characters":"rpgmaker/img/characters",
+        "tilesetImages":"rpgmaker/img/tilesets"}`;
   }
   await setupView();
+  setupToolbar();
   await setupGame();
   (globalThis as any).pixiapp = _app;
+  postMessage({ type: 'ready' });
 };
@@ -0,0 +1,182 @@
+import type { DatabaseEntry, MapData, ResizeAnchor } from 'rm-common';
+import { getPath, loadField, setPath, type FormField } from './formFields';
+
+/**
+ * An entry of the encounter list of a map. `regionSet` limits the encounter to these regions, or the whole map
+ * if it is empty.
+ */
+export type Encounter = {
+  troopId: number;
+  weight: number;
+  regionSet: Array<number>;
+};
+
+/**
+ * The map as the properties dialog edits it. The rest of the properties of the map file are kept as they are.
+ */
+export type MapProperties = MapData & {
+  displayName: string;
+  scrollType: number;
+  encounterList: Array<Encounter>;
+  note: string;
+  [key: string]: unknown;
+};
+
+/**
+ * The result of the properties dialog. The map has the new properties, but still its old size,
+ * which is changed by the caller with `resizeMap` and the anchor.
+ */
+export type MapFormResult = {
+  map: MapProperties;
+  width: number;
+  height: number;
+  anchor: ResizeAnchor;
+};
+
+/** RPG Maker MV allows up to 3 regions for an encounter */
+const MAX_ENCOUNTER_REGIONS = 3;
+
+/**
+ * Parses the regions of an encounter, written as `1, 2, 3`.
+ * Returns `undefined` if they are not valid.
+ */
+function parseRegionSet(text: string) {
+  const regions = text
+    .split(',')
+    .map((value) => value.trim())
+    .filter((value) => value.length > 0);
+  if (regions.length > MAX_ENCOUNTER_REGIONS || regions.some((value) => !/^\d+$/.test(value))) {
+    return undefined;
+  }
+  const regionSet = regions.map(Number);
+  return regionSet.every((regionId) => regionId >= 1 && regionId <= 255) ? regionSet : undefined;
+}
+
+/**
+ * The dialog editing the properties of the map: name, tileset, size, scrolling, audio, encounters,
+ * parallax background and note. Fields are bound with `data-map` (a property of the map).
+ * The values are checked by the constraints of the fields when OK is pressed.
+ */
+export class MapForm {
+  private readonly dialog: HTMLDialogElement;
+  private readonly tilesetSelect: HTMLSelectElement;
+  private readonly encounterRows: HTMLTableSectionElement;
+  private readonly troopList: HTMLDataListElement;
+  private map: MapProperties | undefined;
+  private resolve: ((result: MapFormResult | undefined) => void) | undefined;
+
+  constructor() {
+    this.dialog = document.querySelector('#mapDialog') as HTMLDialogElement;
+    this.tilesetSelect = this.dialog.querySelector('[data-map="tilesetId"]') as HTMLSelectElement;
+    this.encounterRows = this.dialog.querySelector('#encounterList tbody') as HTMLTableSectionElement;
+    this.troopList = this.dialog.querySelector('#troopList') as HTMLDataListElement;
+
+    this.dialog.querySelector('#addEncounter')?.addEventListener('click', () => {
+      this.addEncounterRow({ troopId: 1, weight: 5, regionSet: [] });
+    });
+    this.dialog.addEventListener('close', () => {
+      const result = this.dialog.returnValue === 'ok' ? this.save() : undefined;
+      this.resolve?.(result);
+      this.resolve = undefined;
+      this.map = undefined;
+    });
+  }
+
+  /**
+   * Whether the dialog is shown. Keyboard shortcuts of the map are disabled meanwhile.
+   */
+  public get isOpen() {
+    return this.dialog.open;
+  }
+
+  /**
+   * Shows the dialog for a copy of the map. `tilesets` and `troops` are the content of Tilesets.json and Troops.json.
+   * Resolves with the edited map when OK is pressed, or `undefined` when cancelled.
+   */
+  public open(map: MapProperties, tilesets: Array<DatabaseEntry | null>, troops: Array<DatabaseEntry | null>) {
+    this.map = structuredClone(map);
+    this.dialog.returnValue = '';
+    this.tilesetSelect.replaceChildren(
+      ...tilesets
+        .filter((tileset) => !!tileset)
+        .map((tileset) => new Option(`${String(tileset.id).padStart(4, '0')} ${tileset.name}`, `${tileset.id}`))
+    );
+    // Troop IDs are suggested with their names
+    this.troopList.replaceChildren(
+      ...troops.filter((troop) => !!troop).map((troop) => new Option(troop.name, `${troop.id}`))
+    );
+    for (const field of this.dialog.querySelectorAll<FormField>('[data-map]')) {
+      loadField(field, getPath(this.map, field.dataset.map as string));
+    }
+    (this.dialog.querySelector('input[name="anchor"][value="0,0"]') as HTMLInputElement).checked = true;
+    this.encounterRows.replaceChildren();
+    for (const encounter of this.map.encounterList ?? []) {
+      this.addEncounterRow(encounter);
+    }
+    this.dialog.showModal();
+    return new Promise<MapFormResult | undefined>((resolve) => {
+      this.resolve = resolve;
+    });
+  }
+
+  private addEncounterRow(encounter: Encounter) {
+    const row = this.encounterRows.insertRow();
+    const troopInput = Object.assign(document.createElement('input'), {
+      type: 'number',
+      min: '1',
+      required: true,
+      value: `${encounter.troopId}`
+    });
+    troopInput.setAttribute('list', 'troopList');
+    const weightInput = Object.assign(document.createElement('input'), {
+      type: 'number',
+      min: '1',
+      max: '100',
+      required: true,
+      value: `${encounter.weight}`
+    });
+    const regionInput = Object.assign(document.createElement('input'), {
+      type: 'text',
+      placeholder: 'Whole map',
+      title: `Up to ${MAX_ENCOUNTER_REGIONS} region IDs, separated by commas`,
+      value: encounter.regionSet.join(', ')
+    });
+    regionInput.addEventListener('input', () => {
+      regionInput.setCustomValidity(
+        parseRegionSet(regionInput.value) ? '' : `Enter up to ${MAX_ENCOUNTER_REGIONS} region IDs from 1 to 255.`
+      );
+    });
+    const removeButton = Object.assign(document.createElement('button'), { type: 'button', textContent: 'Remove' });
+    removeButton.addEventListener('click', () => row.remove());
+    for (const element of [troopInput, weightInput, regionInput, removeButton]) {
+      row.insertCell().append(element);
+    }
+  }
+
+  private readEncounterList(): Array<Encounter> {
+    return [...this.encounterRows.rows].map((row) => {
+      const [troopInput, weightInput, regionInput] = [...row.querySelectorAll('input')];
+      return {
+        troopId: Math.floor(Number(troopInput.value)),
+        weight: Math.floor(Number(weightInput.value)),
+        regionSet: parseRegionSet(regionInput.value) ?? []
+      };
+    });
+  }
+
+  private save(): MapFormResult | undefined {
+    if (!this.map) return undefined;
+    const { width, height } = this.map;
+    for (const field of this.dialog.querySelectorAll<FormField>('[data-map]')) {
+      setPath(this.map, field.dataset.map as string, field);
+    }
+    this.map.encounterList = this.readEncounterList();
+    const anchor = (this.dialog.querySelector('input[name="anchor"]:checked') as HTMLInputElement).value;
+    const [x, y] = anchor.split(',').map(Number) as [ResizeAnchor['x'], ResizeAnchor['y']];
+    // The size is applied by the caller, which moves the tiles and the events
+    const result = { map: this.map, width: this.map.width, height: this.map.height, anchor: { x, y } };
+    this.map.width = width;
+    this.map.height = height;
+    return result;
+  }
+}
@@ -0,0 +1,124 @@
+import * as PIXI from 'pixi.js';
+import { getCellFlags, type MapData } from 'rm-common';
+import { CellOverlay } from './cellOverlay';
+import { CELL_SIZE } from './eventLayer';
+
+const PASSABLE_COLOR = 0x40e040;
+const BLOCKED_COLOR = 0xff4040;
+
+/** The drawings of the passage, shared by the cells passable in the same directions */
+const passageContexts = new Map<number, PIXI.GraphicsContext>();
+
+/**
+ * Returns the drawing of the passage toward the given directions:
+ * O or X when all directions agree, arrows toward the passable directions otherwise.
+ */
+function getPassageContext(down: boolean, left: boolean, right: boolean, up: boolean) {
+  const key = (down ? 1 : 0) | (left ? 2 : 0) | (right ? 4 : 0) | (up ? 8 : 0);
+  let context = passageContexts.get(key);
+  if (context) return context;
+  context = new PIXI.GraphicsContext();
+  passageContexts.set(key, context);
+
+  const cx = CELL_SIZE / 2;
+  const cy = CELL_SIZE / 2;
+  const passable = [down, left, right, up];
+
+  if (passable.every((value) => value)) {
+    context.circle(cx, cy, 10).stroke({ color: PASSABLE_COLOR, width: 3 });
+  } else if (passable.every((value) => !value)) {
+    context
+      .moveTo(cx - 9, cy - 9)
+      .lineTo(cx + 9, cy + 9)
+      .moveTo(cx + 9, cy - 9)
+      .lineTo(cx - 9, cy + 9)
+      .stroke({ color: BLOCKED_COLOR, width: 3 });
+  } else {
+    // An arrow toward each passable direction, and a bar on each blocked side
+    const directions: Array<[boolean, number, number]> = [
+      [down, 0, 1],
+      [left, -1, 0],
+      [right, 1, 0],
+      [up, 0, -1]
+    ];
+    for (const [open, dx, dy] of directions) {
+      const tipX = cx + dx * 16;
+      const tipY = cy + dy * 16;
+      if (open) {
+        context
+          .poly([
+            tipX,
+            tipY,
+            tipX - dx * 8 - dy * 6,
+            tipY - dy * 8 - dx * 6,
+            tipX - dx * 8 + dy * 6,
+            tipY - dy * 8 + dx * 6
+          ])
+          .fill({ color: PASSABLE_COLOR });
+      } else {
+        context
+          .moveTo(tipX - dy * 8, tipY - dx * 8)
+          .lineTo(tipX + dy * 8, tipY + dx * 8)
+          .stroke({ color: BLOCKED_COLOR, width: 3 });
+      }
+    }
+  }
+  return context;
+}
+
+const createLabel = (x: number, y: number) =>
+  new PIXI.BitmapText({
+    x,
+    y,
+    style: { fontFamily: 'Arial', fontSize: 13, fontWeight: 'bold', fill: 0xffffff, stroke: { color: 0, width: 3 } }
+  });
+
+/**
+ * The passage, the markers and the terrain tag of a cell.
+ */
+class PassabilityCell extends PIXI.Container {
+  public readonly shape: PIXI.Graphics;
+  public readonly markers: PIXI.BitmapText;
+  public readonly terrainTag: PIXI.BitmapText;
+
+  constructor() {
+    super();
+    this.shape = this.addChild(new PIXI.Graphics());
+    this.markers = this.addChild(createLabel(2, 1));
+    this.terrainTag = this.addChild(createLabel(38, 31));
+  }
+}
+
+/**
+ * Displays the passage of each cell as the game computes it from the tileset flags:
+ * O or X when all directions agree, arrows toward the passable directions otherwise,
+ * and letters for star (☆), ladder (L), bush (B), counter (C), damage floor (D) and terrain tags.
+ */
+export class PassabilityOverlay extends CellOverlay<PassabilityCell> {
+  private flags: ArrayLike<number> = [];
+
+  /**
+   * Sets the map and the flags of its tileset. The overlay is redrawn when it is visible.
+   */
+  public setMap(mapData: MapData, flags: ArrayLike<number>) {
+    this.flags = flags;
+    this.setMapData(mapData);
+  }
+
+  protected createCell() {
+    return new PassabilityCell();
+  }
+
+  protected drawCell(cell: PassabilityCell, x: number, y: number) {
+    const flags = getCellFlags(this.mapData!, this.flags, x, y);
+    cell.shape.context = getPassageContext(flags.down, flags.left, flags.right, flags.up);
+    cell.markers.text = [
+      flags.star ? '☆' : '',
+      flags.ladder ? 'L' : '',
+      flags.bush ? 'B' : '',
+      flags.counter ? 'C' : '',
+      flags.damage ? 'D' : ''
+    ].join('');
+    cell.terrainTag.text = flags.terrainTag > 0 ? `${flags.terrainTag}` : '';
+  }
+}
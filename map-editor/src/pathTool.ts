@@ -0,0 +1,104 @@
+import * as PIXI from 'pixi.js';
+import { findPath, type MapData, type MapPoint } from 'rm-common';
+import { CELL_SIZE } from './eventLayer';
+
+const PATH_COLOR = 0x00c0ff;
+const NO_PATH_COLOR = 0xff4040;
+
+/**
+ * Previews the shortest walk of the player between two cells.
+ * The first click sets where the walk starts, and the path follows the pointer until the second click.
+ */
+export class PathTool extends PIXI.Container {
+  public mapData: MapData | undefined;
+  public flags: ArrayLike<number> = [];
+
+  private readonly shapes: PIXI.Graphics;
+  private readonly stepsLabel: PIXI.BitmapText;
+  private start: MapPoint | undefined;
+  private end: MapPoint | undefined;
+  /** Whether the end follows the pointer */
+  private following = false;
+
+  constructor() {
+    super();
+    this.shapes = this.addChild(new PIXI.Graphics());
+    this.stepsLabel = this.addChild(
+      new PIXI.BitmapText({
+        text: '',
+        style: { fontFamily: 'Arial', fontSize: 16, fontWeight: 'bold', fill: 0xffffff, stroke: { color: 0, width: 3 } }
+      })
+    );
+  }
+
+  public pointerDown(x: number, y: number) {
+    if (this.following) {
+      this.following = false;
+      this.end = { x, y };
+    } else {
+      this.start = { x, y };
+      this.end = { x, y };
+      this.following = true;
+    }
+    this.refresh();
+  }
+
+  public pointerMove(x: number, y: number) {
+    if (!this.following) return;
+    this.end = { x, y };
+    this.refresh();
+  }
+
+  /**
+   * Clears the path. Returns whether the key was used.
+   */
+  public keyDown(e: KeyboardEvent) {
+    if (e.key !== 'Escape') return false;
+    this.start = undefined;
+    this.end = undefined;
+    this.following = false;
+    this.refresh();
+    return true;
+  }
+
+  /**
+   * Redraws the path, e.g. after the map data is replaced.
+   */
+  public refresh() {
+    this.shapes.clear();
+    this.stepsLabel.text = '';
+    const { mapData, start, end } = this;
+    if (!mapData || !start || !end) return;
+
+    const path = findPath(mapData, this.flags, start, end);
+    if (!path) {
+      for (const { x, y } of [start, end]) {
+        this.shapes.rect(x * CELL_SIZE + 4, y * CELL_SIZE + 4, CELL_SIZE - 8, CELL_SIZE - 8);
+      }
+      this.shapes.stroke({ color: NO_PATH_COLOR, width: 3 });
+      this.showLabel('No path', end);
+      return;
+    }
+    for (const { x, y } of path) {
+      this.shapes.rect(x * CELL_SIZE + CELL_SIZE / 3, y * CELL_SIZE + CELL_SIZE / 3, CELL_SIZE / 3, CELL_SIZE / 3);
+    }
+    this.shapes.fill({ color: PATH_COLOR, alpha: 0.8 });
+    this.shapes.moveTo(path[0].x * CELL_SIZE + CELL_SIZE / 2, path[0].y * CELL_SIZE + CELL_SIZE / 2);
+    path.slice(1).forEach(({ x, y }, i) => {
+      // Steps around a looping map jump to the other side
+      const wraps = Math.abs(x - path[i].x) + Math.abs(y - path[i].y) > 1;
+      if (wraps) {
+        this.shapes.moveTo(x * CELL_SIZE + CELL_SIZE / 2, y * CELL_SIZE + CELL_SIZE / 2);
+      } else {
+        this.shapes.lineTo(x * CELL_SIZE + CELL_SIZE / 2, y * CELL_SIZE + CELL_SIZE / 2);
+      }
+    });
+    this.shapes.stroke({ color: PATH_COLOR, width: 4 });
+    this.showLabel(`${path.length - 1} steps`, end);
+  }
+
+  private showLabel(text: string, at: MapPoint) {
+    this.stepsLabel.text = text;
+    this.stepsLabel.position.set(at.x * CELL_SIZE + 4, at.y * CELL_SIZE + CELL_SIZE);
+  }
+}
@@ -0,0 +1,68 @@
+import * as PIXI from 'pixi.js';
+import type { MapData, MapPoint, Reachability } from 'rm-common';
+import { CELL_SIZE } from './eventLayer';
+
+const UNREACHABLE_COLOR = 0xff4040;
+const START_COLOR = 0x40e040;
+
+/**
+ * Shows the result of a reachability check: the cells the player cannot walk to are darkened,
+ * and the events and transfer targets the player cannot reach are outlined.
+ */
+export class ReachabilityOverlay extends PIXI.Container {
+  private readonly shapes: PIXI.Graphics;
+  private readonly labels: PIXI.Container;
+
+  constructor() {
+    super();
+    this.shapes = this.addChild(new PIXI.Graphics());
+    this.labels = this.addChild(new PIXI.Container());
+  }
+
+  public show(mapData: MapData, start: MapPoint, result: Reachability) {
+    this.clear();
+    for (let y = 0; y < mapData.height; y++) {
+      for (let x = 0; x < mapData.width; x++) {
+        if (!result.reachable[y * mapData.width + x]) {
+          this.shapes.rect(x * CELL_SIZE, y * CELL_SIZE, CELL_SIZE, CELL_SIZE);
+        }
+      }
+    }
+    this.shapes.fill({ color: 0x000000, alpha: 0.45 });
+
+    for (const event of result.unreachableEvents) {
+      this.shapes
+        .rect(event.x * CELL_SIZE + 2, event.y * CELL_SIZE + 2, CELL_SIZE - 4, CELL_SIZE - 4)
+        .stroke({ color: UNREACHABLE_COLOR, width: 4 });
+    }
+    for (const target of result.unreachableTransfers) {
+      const cx = target.x * CELL_SIZE + CELL_SIZE / 2;
+      const cy = target.y * CELL_SIZE + CELL_SIZE / 2;
+      this.shapes
+        .poly([cx, cy - 20, cx + 20, cy, cx, cy + 20, cx - 20, cy])
+        .stroke({ color: UNREACHABLE_COLOR, width: 3 });
+      this.addLabel('T', cx, cy, UNREACHABLE_COLOR);
+    }
+    this.shapes
+      .circle(start.x * CELL_SIZE + CELL_SIZE / 2, start.y * CELL_SIZE + CELL_SIZE / 2, 14)
+      .stroke({ color: START_COLOR, width: 4 });
+    this.addLabel('S', start.x * CELL_SIZE + CELL_SIZE / 2, start.y * CELL_SIZE + CELL_SIZE / 2, START_COLOR);
+  }
+
+  public clear() {
+    this.shapes.clear();
+    for (const label of this.labels.removeChildren()) {
+      label.destroy();
+    }
+  }
+
+  private addLabel(text: string, cx: number, cy: number, color: number) {
+    const label = new PIXI.BitmapText({
+      text,
+      style: { fontFamily: 'Arial', fontSize: 16, fontWeight: 'bold', fill: color, stroke: { color: 0, width: 3 } }
+    });
+    label.anchor.set(0.5);
+    label.position.set(cx, cy);
+    this.labels.addChild(label);
+  }
+}
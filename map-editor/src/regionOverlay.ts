@@ -0,0 +1,57 @@
+import * as PIXI from 'pixi.js';
+import type { MapData } from 'rm-common';
+import { CellOverlay } from './cellOverlay';
+import { CELL_SIZE } from './eventLayer';
+
+/**
+ * Returns the color used to display a region.
+ */
+export function getRegionColor(regionId: number) {
+  return new PIXI.Color({ h: (regionId * 47) % 360, s: 80, l: 50 });
+}
+
+/**
+ * The colored and numbered square of a cell.
+ */
+class RegionCell extends PIXI.Container {
+  public readonly shape: PIXI.Graphics;
+  public readonly regionId: PIXI.BitmapText;
+
+  constructor() {
+    super();
+    this.shape = this.addChild(new PIXI.Graphics());
+    this.regionId = this.addChild(
+      new PIXI.BitmapText({ style: { fontFamily: 'Arial', fontSize: 20, fontWeight: 'bold', fill: 0xffffff } })
+    );
+    this.regionId.anchor.set(0.5);
+    this.regionId.position.set(CELL_SIZE / 2, CELL_SIZE / 2);
+  }
+}
+
+/**
+ * Displays the region IDs stored in layer 6 of the map data as colored and numbered cells.
+ */
+export class RegionOverlay extends CellOverlay<RegionCell> {
+  /**
+   * Draws all regions of the map.
+   */
+  public setMap(mapData: MapData) {
+    this.setMapData(mapData);
+  }
+
+  protected createCell() {
+    return new RegionCell();
+  }
+
+  protected drawCell(cell: RegionCell, x: number, y: number) {
+    const { width, height, data } = this.mapData!;
+    const regionId = data[(5 * height + y) * width + x] ?? 0;
+    cell.visible = regionId > 0;
+    if (!cell.visible) return;
+    cell.shape
+      .clear()
+      .rect(0, 0, CELL_SIZE, CELL_SIZE)
+      .fill({ color: getRegionColor(regionId), alpha: 0.5 });
+    cell.regionId.text = `${regionId}`;
+  }
+}
@@ -0,0 +1,226 @@
+import * as PIXI from 'pixi.js';
+import {
+  clearMapArea,
+  clipRect,
+  copyMapArea,
+  LAYER_COUNT,
+  pasteMapArea,
+  type MapAreaEdit,
+  type MapClip,
+  type MapData,
+  type MapRect,
+  type ShaderTilemap
+} from 'rm-common';
+import { CELL_SIZE } from './eventLayer';
+
+/**
+ * What the selection tool reports to the editor.
+ */
+export type SelectionToolHandler = {
+  /** Called with the edits of cut, delete and paste, which are applied to the map data already */
+  onEdit: (edit: MapAreaEdit) => void;
+  /** Called when a rectangle is copied, so that the extension can hold it for other maps */
+  onCopy: (clip: MapClip) => void;
+  onWarning: (text: string) => void;
+};
+
+/**
+ * Selects a rectangle of the map, and copies, cuts and pastes all six layers of it.
+ * While pasting, the clip is shown where it would go until the map is clicked.
+ */
+export class SelectionTool extends PIXI.Container {
+  public mapData: MapData | undefined;
+  public tilemap: ShaderTilemap | undefined;
+  /** Whether copy, cut and paste include the events in the rectangle */
+  public withEvents = false;
+
+  private readonly handler: SelectionToolHandler;
+  private readonly outline: PIXI.Graphics;
+  private selection: MapRect | undefined;
+  private selectStart: PIXI.Point | undefined;
+  private clipboard: MapClip | undefined;
+  /** Whether the clipboard follows the pointer, waiting for a click to paste it */
+  private pasting = false;
+  /** A copy of the map data with the clip written in, which the tilemap draws while pasting */
+  private previewData: Array<number> | undefined;
+  /** The indices of `previewData` the clip is written to */
+  private previewIndices: Array<number> = [];
+
+  constructor(handler: SelectionToolHandler) {
+    super();
+    this.handler = handler;
+    this.outline = this.addChild(new PIXI.Graphics());
+  }
+
+  /**
+   * Sets the clip pasted by `Ctrl+V`, e.g. one copied in another map editor.
+   */
+  public setClipboard(clip: MapClip | undefined) {
+    this.clipboard = clip;
+  }
+
+  public pointerDown(x: number, y: number) {
+    if (this.pasting) {
+      this.paste(x, y);
+      return;
+    }
+    this.selectStart = new PIXI.Point(x, y);
+    this.setSelection(this.getDraggedRect(x, y));
+  }
+
+  public pointerMove(x: number, y: number) {
+    if (this.pasting) {
+      this.showPreview(x, y);
+    } else if (this.selectStart) {
+      this.setSelection(this.getDraggedRect(x, y));
+    }
+  }
+
+  public pointerUp() {
+    this.selectStart = undefined;
+  }
+
+  /**
+   * Handles the keyboard shortcuts of the selection tool. The cursor is where pasting starts.
+   * Returns whether the key was used.
+   */
+  public keyDown(e: KeyboardEvent, cursor: PIXI.Point) {
+    const ctrl = e.ctrlKey || e.metaKey;
+    if (e.key === 'Escape') {
+      this.cancel();
+      this.setSelection(undefined);
+    } else if (ctrl && e.key === 'c' && this.selection) {
+      this.copy();
+    } else if (ctrl && e.key === 'x' && this.selection) {
+      this.copy();
+      this.clear();
+    } else if (e.key === 'Delete' && this.selection) {
+      this.clear();
+    } else if (ctrl && e.key === 'v') {
+      this.startPaste(cursor);
+    } else {
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Stops pasting, and draws the map data again.
+   */
+  public cancel() {
+    if (!this.pasting) return;
+    this.pasting = false;
+    this.hidePreview();
+    this.tilemap?.refresh();
+    this.setSelection(this.selection);
+  }
+
+  /**
+   * Drops the state tied to the map data after it is replaced, e.g. by undo/redo.
+   * When the map data is only changed in place, `cancel` has to be called before, since the preview is drawn from a copy.
+   */
+  public refresh() {
+    this.pasting = false;
+    this.previewData = undefined;
+    this.previewIndices = [];
+    this.selectStart = undefined;
+    this.setSelection(this.selection && this.mapData ? clipRect(this.mapData, this.selection) : undefined);
+  }
+
+  private getDraggedRect(x: number, y: number): MapRect {
+    const start = this.selectStart ?? new PIXI.Point(x, y);
+    return {
+      x: Math.min(start.x, x),
+      y: Math.min(start.y, y),
+      width: Math.abs(start.x - x) + 1,
+      height: Math.abs(start.y - y) + 1
+    };
+  }
+
+  private setSelection(rect: MapRect | undefined) {
+    this.selection = rect && rect.width > 0 && rect.height > 0 ? rect : undefined;
+    this.drawOutline(this.selection, 0x00c0ff);
+  }
+
+  private drawOutline(rect: MapRect | undefined, color: number) {
+    this.outline.clear();
+    if (rect) {
+      this.outline
+        .rect(rect.x * CELL_SIZE, rect.y * CELL_SIZE, rect.width * CELL_SIZE, rect.height * CELL_SIZE)
+        .fill({ color, alpha: 0.15 })
+        .stroke({ color, width: 2 });
+    }
+  }
+
+  private copy() {
+    if (!this.mapData || !this.selection) return;
+    this.clipboard = copyMapArea(this.mapData, this.selection, this.withEvents);
+    this.handler.onCopy(this.clipboard);
+  }
+
+  private clear() {
+    if (!this.mapData || !this.selection) return;
+    const edit = clearMapArea(this.mapData, this.selection, this.withEvents);
+    this.tilemap?.refresh();
+    this.handler.onEdit(edit);
+  }
+
+  private startPaste(cursor: PIXI.Point) {
+    if (!this.mapData || !this.clipboard) return;
+    if (this.clipboard.tilesetId !== this.mapData.tilesetId) {
+      this.handler.onWarning('The copied tiles use another tileset, and cannot be pasted in this map.');
+      return;
+    }
+    this.pasting = true;
+    this.showPreview(cursor.x, cursor.y);
+  }
+
+  /**
+   * Shows the clipboard with its top-left corner at (x, y) by drawing a copy of the map data with its tiles written in.
+   * The map data itself is not changed until the clip is pasted.
+   */
+  private showPreview(x: number, y: number) {
+    const { mapData, clipboard: clip } = this;
+    if (!mapData || !clip) return;
+    const previewData = (this.previewData ??= mapData.data.slice());
+    for (const index of this.previewIndices) {
+      previewData[index] = mapData.data[index] ?? 0;
+    }
+    this.previewIndices = [];
+    const area = clipRect(mapData, { x, y, width: clip.width, height: clip.height });
+    for (let z = 0; z < LAYER_COUNT; z++) {
+      for (let cy = area.y; cy < area.y + area.height; cy++) {
+        for (let cx = area.x; cx < area.x + area.width; cx++) {
+          const index = (z * mapData.height + cy) * mapData.width + cx;
+          this.previewIndices.push(index);
+          previewData[index] = clip.data[(z * clip.height + cy - y) * clip.width + cx - x] ?? 0;
+        }
+      }
+    }
+    this.tilemap?.setData(mapData.width, mapData.height, previewData);
+    this.tilemap?.refresh();
+    this.drawOutline({ x, y, width: clip.width, height: clip.height }, 0xffc000);
+  }
+
+  /**
+   * Lets the tilemap draw the map data again instead of the preview.
+   */
+  private hidePreview() {
+    if (this.mapData) {
+      this.tilemap?.setData(this.mapData.width, this.mapData.height, this.mapData.data);
+    }
+    this.previewData = undefined;
+    this.previewIndices = [];
+  }
+
+  private paste(x: number, y: number) {
+    if (!this.mapData || !this.clipboard) return;
+    this.pasting = false;
+    this.hidePreview();
+    const clip = this.clipboard;
+    const edit = pasteMapArea(this.mapData, clip, x, y);
+    this.tilemap?.refresh();
+    this.setSelection({ x, y, width: clip.width, height: clip.height });
+    this.handler.onEdit(edit);
+  }
+}
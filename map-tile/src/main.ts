@@ -1,7 +1,24 @@
 import * as PIXI from 'pixi.js';
-import { ShaderTilemap, requireRpgMaker, type AssetPaths, type MapData, Tilemap } from 'rm-common';
+import {
+  describeTileFlags,
+  getPageData,
+  getPalettePages,
+  getTileSheetName,
+  isToMapTilesMessage,
+  PALETTE_WIDTH,
+  ShaderTilemap,
+  requireRpgMaker,
+  type AssetPaths,
+  type FromMapTilesMessage,
+  type MapData,
+  type PaletteTab
+} from 'rm-common';
 
 const vscode = (globalThis as any).acquireVsCodeApi ? acquireVsCodeApi() : null;
+
+function postMessage(message: FromMapTilesMessage) {
+  vscode?.postMessage(message);
+}
 const _app = new PIXI.Application();
 const rpgMakerLoader = requireRpgMaker();
 let stage: PIXI.Container;
@@ -32,33 +49,19 @@ function resizeTilemap() {
 
 let assetPaths: string = '';
 
-const paletteWidth = 8;
-const paletteHeight = 32 * 5;
-const defaultMapData: Array<number> = [];
+const paletteWidth = PALETTE_WIDTH;
 
-function setupMapData() {
-  // A1-A4 (128)
-  for (let i = Tilemap.TILE_ID_A2; i < Tilemap.TILE_ID_MAX; i += 48) {
-    defaultMapData.push(i);
-  }
-  // A5 (128)
-  for (let i = 0; i < 128; i++) {
-    defaultMapData.push(Tilemap.TILE_ID_A5 + i);
-  }
-  // BCDE (1024)
-  for (let i = 0; i < 1024; i++) {
-    defaultMapData.push(i);
-  }
-  // 1~5 layers are empty
-  defaultMapData.concat(Array.from({ length: paletteWidth * paletteHeight * 5 }, () => 0));
-}
+/** The tile IDs of each tab, row by row */
+let pages = new Map<PaletteTab, Array<number>>();
+let currentTab: PaletteTab = 'A';
+/** The tile IDs of the current tab */
+let paletteData: Array<number> = [];
+let paletteHeight = 0;
 
 async function setupView() {
-  const [width, height] = [paletteWidth * 48, paletteHeight * 48];
+  const [width, height] = [paletteWidth * 48, 48];
 
   const backCanvas = document.querySelector('#backCanvas') as HTMLCanvasElement;
-  backCanvas.style.width = `${width}px`;
-  backCanvas.style.height = `${height}px`;
 
   await _app.init({
     // width: backCanvas.width,
@@ -73,13 +76,153 @@ async function setupView() {
 }
 
 const mapPoint = new PIXI.Point();
+/** Where the drag selecting tiles started */
+let selectStart: PIXI.Point | undefined;
+
+function toPalettePoint(globalX: number, globalY: number) {
+  return new PIXI.Point(
+    Math.min(Math.max(Math.floor(globalX / tilemap.tileWidth), 0), paletteWidth - 1),
+    Math.min(Math.max(Math.floor(globalY / tilemap.tileHeight), 0), paletteHeight - 1)
+  );
+}
+
+/**
+ * Returns the rectangle of palette cells between the start of the drag and the pointer.
+ */
+function getSelection() {
+  const start = selectStart ?? mapPoint;
+  const x = Math.min(start.x, mapPoint.x);
+  const y = Math.min(start.y, mapPoint.y);
+  return new PIXI.Rectangle(x, y, Math.abs(start.x - mapPoint.x) + 1, Math.abs(start.y - mapPoint.y) + 1);
+}
+
+let selectRect: PIXI.Graphics;
+
+function drawSelection() {
+  const { x, y, width, height } = getSelection();
+  const { tileWidth, tileHeight } = tilemap;
+  selectRect
+    .clear()
+    .rect(x * tileWidth, y * tileHeight, width * tileWidth, height * tileHeight)
+    .fill({ color: 0xffffff, alpha: 0.4 })
+    .stroke({ color: 0x111111, alpha: 0.9, width: 1 });
+}
+
+/**
+ * Shows the tiles of a tab, resizing the palette to fit them.
+ */
+function showTab(tab: PaletteTab) {
+  layoutTab(tab);
+  selectStart = undefined;
+  mapPoint.set(0, 0);
+  drawSelection();
+  window.scrollTo(0, 0);
+}
+
+/**
+ * Puts the tiles of a tab in the tilemap and resizes the palette, keeping the selection.
+ */
+function layoutTab(tab: PaletteTab) {
+  currentTab = tab;
+  paletteData = pages.get(tab) ?? [];
+  paletteHeight = Math.ceil(paletteData.length / paletteWidth);
+
+  const [width, height] = [paletteWidth * tilemap.tileWidth, Math.max(paletteHeight, 1) * tilemap.tileHeight];
+  const backCanvas = document.querySelector('#backCanvas') as HTMLCanvasElement;
+  backCanvas.style.width = `${width}px`;
+  backCanvas.style.height = `${height}px`;
+  _app.renderer.resize(width, height);
+
+  tilemap.setData(paletteWidth, paletteHeight, getPageData(paletteData));
+  resizeTilemap();
+  tilemap.refresh();
+
+  for (const button of document.querySelectorAll<HTMLButtonElement>('#tabs [data-tab]')) {
+    button.hidden = !pages.has(button.dataset.tab as PaletteTab);
+    button.classList.toggle('active', button.dataset.tab === currentTab);
+  }
+}
+
+function setupTabs() {
+  for (const button of document.querySelectorAll<HTMLButtonElement>('#tabs [data-tab]')) {
+    const tab = button.dataset.tab as PaletteTab;
+    button.addEventListener('click', () => showTab(tab));
+  }
+}
+
+/** Counts the reloads, so that only the latest one is shown */
+let reloadRequest = 0;
+
+/**
+ * Shows the tileset again after `Tilesets.json` or its images are changed on disk.
+ * The tab, the selection and the scroll position are kept when the tab still exists.
+ */
+async function reloadTileset(tilesetId: number, tilesetNames: Array<string>) {
+  if (!tilemap) return;
+  const request = ++reloadRequest;
+  rpgMakerLoader.bustCache();
+  const tilesets = await rpgMakerLoader.loadTilesets();
+  const newPages = getPalettePages(tilesetNames);
+  const tab = newPages.has(currentTab) ? currentTab : ([...newPages.keys()][0] ?? 'A');
+  const data = newPages.get(tab) ?? [];
+  const height = Math.ceil(data.length / paletteWidth);
+  const newTilemap = await rpgMakerLoader.loadTileset(
+    { tilesetId, width: paletteWidth, height, data: getPageData(data) },
+    tilesetNames,
+    tilesets[tilesetId]?.flags ?? [],
+    true
+  );
+  if (request !== reloadRequest) {
+    newTilemap.destroy();
+    return;
+  }
+  newTilemap.roundPixels = scale === 1;
+  newTilemap.origin = { x: 0, y: 0 };
+  stage.removeChild(tilemap);
+  tilemap.destroy();
+  tilemap = stage.addChildAt(newTilemap, 0);
+  pages = newPages;
+
+  const scrollY = window.scrollY;
+  if (tab === currentTab) {
+    layoutTab(tab);
+    window.scrollTo(0, scrollY);
+  } else {
+    showTab(tab);
+  }
+  await rpgMakerLoader.releaseStale();
+}
+
+/**
+ * Shows the ID and the flags of the tile under the pointer.
+ */
+function showTooltip(e: PIXI.FederatedPointerEvent) {
+  const tooltip = document.querySelector('#tooltip') as HTMLElement;
+  const x = Math.floor(e.globalX / tilemap.tileWidth);
+  const y = Math.floor(e.globalY / tilemap.tileHeight);
+  const tileId = x >= 0 && x < paletteWidth ? paletteData[y * paletteWidth + x] : undefined;
+  if (tileId === undefined) {
+    tooltip.hidden = true;
+    return;
+  }
+  const lines = [`Tile ID: ${tileId} (${getTileSheetName(tileId)})`, ...describeTileFlags(tilemap.flags[tileId] ?? 0)];
+  tooltip.textContent = lines.join('\n');
+  tooltip.style.left = `${e.clientX + 12}px`;
+  tooltip.style.top = `${e.clientY + 12}px`;
+  tooltip.hidden = false;
+}
 
 async function setupGame() {
   const assetData = JSON.parse(assetPaths) as AssetPaths;
+  pages = getPalettePages(assetData.tilesetNames);
+  currentTab = [...pages.keys()][0] ?? 'A';
+  paletteData = pages.get(currentTab) ?? [];
+  paletteHeight = Math.ceil(paletteData.length / paletteWidth);
+
   const mapData = (await PIXI.Assets.load(assetData.map)) as MapData;
   mapData.width = paletteWidth;
   mapData.height = paletteHeight;
-  mapData.data = defaultMapData;
+  mapData.data = getPageData(paletteData);
   const map = await rpgMakerLoader.load(mapData, assetData, true);
 
   tilemap = map;
@@ -89,36 +232,44 @@ async function setupGame() {
   stage.addChild(tilemap);
   _app.stage = stage;
 
-  resizeTilemap();
-  // resize(mapData.width * 48, mapData.height * 48);
-
-  // Create the select rect for TEMP use
-  const selectRect = _app.stage.addChild(
-    new PIXI.Graphics()
-      .rect(0, 0, 48, 48)
-      .fill({ color: 0xffffff, alpha: 0.4 })
-      .stroke({ color: 0x111111, alpha: 0.9, width: 1 })
-  );
+  selectRect = _app.stage.addChild(new PIXI.Graphics());
+  setupTabs();
+  showTab(currentTab);
 
   _app.ticker.add(update);
 
-  // Follow the pointer
+  // Select a tile by clicking, or a rectangle of tiles by dragging
   _app.stage.eventMode = 'static';
   _app.stage.hitArea = _app.screen;
-  _app.stage.addEventListener('pointertap', (e) => {
-    const newPos = new PIXI.Point(Math.floor(e.globalX / 48.0), Math.floor(e.globalY / 48.0));
-    if (!newPos.equals(mapPoint)) {
-      mapPoint.copyFrom(newPos);
-      // Move the cursor
-      selectRect.position.set(mapPoint.x * 48.0, mapPoint.y * 48.0);
-      // Post message
-      vscode?.postMessage({
-        type: 'setCursorPos',
-        x: mapPoint.x,
-        y: mapPoint.y
-      });
-    }
+  _app.stage.addEventListener('pointerdown', (e) => {
+    if (e.button !== 0) return;
+    mapPoint.copyFrom(toPalettePoint(e.globalX, e.globalY));
+    selectStart = mapPoint.clone();
+    drawSelection();
+  });
+  _app.stage.addEventListener('pointermove', (e) => {
+    showTooltip(e);
+    if (!selectStart) return;
+    mapPoint.copyFrom(toPalettePoint(e.globalX, e.globalY));
+    drawSelection();
+  });
+  _app.canvas.addEventListener('pointerleave', () => {
+    (document.querySelector('#tooltip') as HTMLElement).hidden = true;
   });
+  const endSelection = () => {
+    if (!selectStart) return;
+    const { x, y, width, height } = getSelection();
+    selectStart = undefined;
+    const tileIds: Array<number> = [];
+    for (let dy = 0; dy < height; dy++) {
+      for (let dx = 0; dx < width; dx++) {
+        tileIds.push(paletteData[(y + dy) * paletteWidth + x + dx] ?? 0);
+      }
+    }
+    postMessage({ type: 'selectTiles', width, height, tileIds });
+  };
+  _app.stage.addEventListener('pointerup', endSelection);
+  _app.stage.addEventListener('pointerupoutside', endSelection);
 }
 
 let initRefreshed = false;
@@ -138,6 +289,18 @@ function update(ticker: PIXI.Ticker) {
   }
 }
 
+// Receive message from the extension.
+window.addEventListener('message', (e) => {
+  const message: unknown = e.data;
+  // Messages which do not follow the protocol are ignored
+  if (!isToMapTilesMessage(message)) return;
+  switch (message.type) {
+    case 'reloadTileset':
+      reloadTileset(message.tilesetId, message.tilesetNames);
+      return;
+  }
+});
+
 (globalThis as any).go = async () => {
   assetPaths = (window as any).ASSET_PATHS;
   // Patch for dev
@@ -156,7 +319,6 @@ function update(ticker: PIXI.Ticker) {
           "rpgmaker/img/tilesets/Inside_C.png"]}`;
   }
   await setupView();
-  setupMapData();
   await setupGame();
   (globalThis as any).pixiapp = _app;
 };
@@ -0,0 +1,147 @@
+import { readFileSync } from 'fs';
+import { describe, expect, it } from 'vitest';
+import { refreshAutotiles, resolveAutotile, type MapLayers } from './autotile';
+import { Tilemap, type MapData } from './rmmv';
+
+const readMap = (fileName: string): MapData =>
+  JSON.parse(readFileSync(new URL(`../map-editor/rpgmaker/data/${fileName}`, import.meta.url), 'utf8'));
+
+const WATER = Tilemap.makeAutotileId(0, 0);
+const WATERFALL = Tilemap.makeAutotileId(5, 0);
+const FLOOR = Tilemap.makeAutotileId(16, 0);
+const WALL_TOP = Tilemap.makeAutotileId(80, 0);
+const WALL_SIDE = Tilemap.makeAutotileId(88, 0);
+
+/**
+ * Creates a map whose layer 1 holds the given rows of tiles.
+ */
+function createMap(rows: Array<Array<number>>): MapLayers {
+  const width = rows[0].length;
+  const height = rows.length;
+  const data = new Array<number>(width * height * 6).fill(0);
+  data.splice(0, width * height, ...rows.flat());
+  return { width, height, data };
+}
+
+const shapeAt = (map: MapLayers, x: number, y: number) => Tilemap.getAutotileShape(map.data[y * map.width + x]);
+
+// Cells whose shapes disagree with their neighbors in the sample maps. RPG Maker keeps the shapes of the cells
+// around a tile drawn with Shift held or with a tile of tab A5, so they cannot be resolved from the map alone.
+const HAND_PLACED_CELLS: Record<string, Array<string>> = {
+  'Map001.json': [
+    // Water under the bridge
+    '22,10,0 23,10,0 24,10,0 22,13,0 23,13,0 24,13,0'
+  ],
+  'Map002.json': [],
+  'Map003.json': [
+    // Grass around the tiles of tab A5
+    '47,7,0 46,8,0 47,8,0 45,9,0 46,9,0 44,10,0 45,10,0 20,14,0 20,15,0 44,15,0 43,16,0 44,16,0 42,17,0 43,17,0',
+    '3,19,0 4,19,0 3,20,0 4,20,0 5,20,0 4,21,0 5,21,0',
+    // Grass around the pillar tops at 7..8,19 and 12..13,19, and the ceiling below them
+    '11,18,0 12,18,0 13,18,0 14,18,0 9,19,0 10,19,0 11,19,0 14,19,0 15,19,0',
+    '11,18,1 12,18,1 13,18,1 14,18,1 9,19,1 10,19,1 11,19,1 14,19,1 15,19,1',
+    '7,20,0 8,20,0 12,20,0 13,20,0 12,23,0',
+    // Raised wall drawn with the edges of a wall that is not raised
+    '25,1,0 26,1,0 31,1,0 32,1,0 25,2,0 32,2,0 25,3,0 32,3,0 25,4,0 32,4,0',
+    '25,5,0 26,5,0 27,5,0 28,5,0 29,5,0 30,5,0 31,5,0 32,5,0',
+    // Raised wall with the door of tab A5, which continues the ceiling above it
+    '32,19,0 34,19,0 36,19,0 32,20,0 34,20,0 36,20,0 32,21,0 34,21,0 36,21,0',
+    '32,22,0 33,22,0 34,22,0 35,22,0 36,22,0 30,23,0 31,23,0 34,23,0 36,23,0 34,24,0 36,24,0 34,25,0 36,25,0',
+    '34,26,0 35,26,0 36,26,0 34,27,0 36,27,0 34,28,0 36,28,0 34,29,0 36,29,0 34,30,0 35,30,0 36,30,0 33,31,0'
+  ],
+  'Map004.json': [
+    // Water under the bridge
+    '19,25,0 20,25,0 21,25,0 19,26,0 21,26,0',
+    // Path through the wall and the wall sides beside the waterfalls
+    '10,26,0 10,27,0 10,28,0 3,28,0 37,28,0'
+  ],
+  'Map005.json': []
+};
+
+describe('resolveAutotile', () => {
+  it.each(Object.keys(HAND_PLACED_CELLS))('reproduces the autotiles of %s', (fileName) => {
+    const map = readMap(fileName);
+    const mismatches: Array<string> = [];
+    for (let z = 0; z < 4; z++) {
+      for (let y = 0; y < map.height; y++) {
+        for (let x = 0; x < map.width; x++) {
+          const tileId = map.data[(z * map.height + y) * map.width + x];
+          if (Tilemap.isAutotile(tileId) && resolveAutotile(map, x, y, z) !== tileId) {
+            mismatches.push(`${x},${y},${z}`);
+          }
+        }
+      }
+    }
+    expect(mismatches.sort()).toEqual(HAND_PLACED_CELLS[fileName].join(' ').split(' ').filter(Boolean).sort());
+  });
+
+  it('connects waterfalls to water and walls, but not to other tiles', () => {
+    expect(Tilemap.getAutotileShape(resolveAutotile(createMap([[WALL_SIDE, WATERFALL, FLOOR]]), 1, 0, 0))).toBe(2);
+    expect(Tilemap.getAutotileShape(resolveAutotile(createMap([[FLOOR, WATERFALL, WATER]]), 1, 0, 0))).toBe(1);
+    expect(Tilemap.getAutotileShape(resolveAutotile(createMap([[WALL_TOP, WATERFALL, WATER]]), 1, 0, 0))).toBe(0);
+  });
+
+  it('draws a raised wall as a block on the ceiling beneath it', () => {
+    const map = createMap([
+      [WALL_TOP, WALL_TOP, WALL_TOP, WALL_TOP],
+      [WALL_TOP, WALL_TOP, WALL_TOP, WALL_TOP],
+      [WALL_TOP, WALL_SIDE, WALL_SIDE, WALL_TOP],
+      [WALL_TOP, WALL_TOP, WALL_TOP, WALL_TOP]
+    ]);
+    // The raised wall tops have edges toward the ceiling and the wall side
+    expect(Tilemap.getAutotileShape(resolveAutotile(map, 1, 1, 0))).toBe(40);
+    expect(Tilemap.getAutotileShape(resolveAutotile(map, 2, 1, 0))).toBe(38);
+    // The ceiling continues under the raised wall
+    expect(Tilemap.getAutotileShape(resolveAutotile(map, 0, 1, 0))).toBe(0);
+    expect(Tilemap.getAutotileShape(resolveAutotile(map, 0, 2, 0))).toBe(0);
+    expect(Tilemap.getAutotileShape(resolveAutotile(map, 1, 3, 0))).toBe(0);
+  });
+
+  it('leaves tiles that are not autotiles unchanged', () => {
+    expect(resolveAutotile(createMap([[FLOOR, 1536, FLOOR]]), 1, 0, 0)).toBe(1536);
+    expect(resolveAutotile(createMap([[FLOOR, 0, FLOOR]]), 1, 0, 0)).toBe(0);
+  });
+});
+
+describe('refreshAutotiles', () => {
+  it('updates the shapes around the painted cells and returns the changes', () => {
+    const map = createMap([
+      [FLOOR, FLOOR, FLOOR],
+      [FLOOR, 0, FLOOR],
+      [FLOOR, FLOOR, FLOOR]
+    ]);
+    const changes = refreshAutotiles(map, [{ x: 1, y: 1 }], 0);
+
+    expect(changes).toHaveLength(8);
+    expect(changes).toContainEqual({ x: 1, y: 0, z: 0, tileId: Tilemap.makeAutotileId(16, 28) });
+    expect(shapeAt(map, 1, 0)).toBe(28);
+    expect(shapeAt(map, 0, 1)).toBe(24);
+    expect(refreshAutotiles(map, [{ x: 1, y: 1 }], 0)).toEqual([]);
+  });
+
+  it('updates the walls above the painted cells', () => {
+    const map = createMap([
+      [WALL_TOP, WALL_TOP, WALL_TOP],
+      [WALL_TOP, WALL_TOP, WALL_TOP],
+      [WALL_TOP, WALL_SIDE, WALL_TOP],
+      [WALL_TOP, 0, WALL_TOP]
+    ]);
+    refreshAutotiles(map, [{ x: 1, y: 1 }], 0);
+    expect(shapeAt(map, 1, 0)).toBe(0);
+
+    map.data[3 * map.width + 1] = WALL_TOP;
+    const changes = refreshAutotiles(map, [{ x: 1, y: 3 }], 0);
+    expect(changes).toContainEqual({ x: 1, y: 0, z: 0, tileId: Tilemap.makeAutotileId(80, 32) });
+    expect(shapeAt(map, 1, 0)).toBe(32);
+  });
+
+  it('only updates the given layer', () => {
+    const map = createMap([[FLOOR, 0]]);
+    // The same floor on layer 2, which does not connect to the one on layer 1
+    map.data[3] = FLOOR;
+    expect(refreshAutotiles(map, [{ x: 1, y: 0 }], 0)).toEqual([
+      { x: 0, y: 0, z: 0, tileId: Tilemap.makeAutotileId(16, 24) }
+    ]);
+    expect(map.data[3]).toBe(FLOOR);
+  });
+});
@@ -0,0 +1,218 @@
+import type { MapCellChange } from './protocol';
+import { Tilemap, type MapData } from './rmmv';
+
+/**
+ * The part of the map data the autotile resolver works on.
+ */
+export type MapLayers = Pick<MapData, 'width' | 'height' | 'data'>;
+
+// Quarter coordinates of floor autotiles, indexed by [quarter][state].
+// Quarters are top-left, top-right, bottom-left, bottom-right.
+// States are: interior, inner corner, side edge, top/bottom edge, outer corner.
+// prettier-ignore
+const FLOOR_QUARTERS = [
+  [[2, 4], [2, 0], [0, 4], [2, 2], [0, 2]],
+  [[1, 4], [3, 0], [3, 4], [1, 2], [3, 2]],
+  [[2, 3], [2, 1], [0, 3], [2, 5], [0, 5]],
+  [[1, 3], [3, 1], [3, 3], [1, 5], [3, 5]]
+];
+
+// Neighbor offsets of each quarter: horizontal, vertical, diagonal.
+// prettier-ignore
+const QUARTER_NEIGHBORS = [
+  [[-1, 0], [0, -1], [-1, -1]],
+  [[1, 0], [0, -1], [1, -1]],
+  [[-1, 0], [0, 1], [-1, 1]],
+  [[1, 0], [0, 1], [1, 1]]
+];
+
+/**
+ * Whether (x, y) is a cell of the map.
+ */
+export const isInside = (map: MapLayers, x: number, y: number) => x >= 0 && x < map.width && y >= 0 && y < map.height;
+
+const readTile = (map: MapLayers, x: number, y: number, z: number) =>
+  isInside(map, x, y) ? (map.data[(z * map.height + y) * map.width + x] ?? 0) : 0;
+
+/**
+ * Returns the bottom row of the continuous wall side containing (x, y).
+ */
+function getWallSideBottom(map: MapLayers, x: number, y: number, z: number) {
+  const tileId = readTile(map, x, y, z);
+  while (y < map.height - 1 && Tilemap.isSameKindTile(tileId, readTile(map, x, y + 1, z))) {
+    y++;
+  }
+  return y;
+}
+
+/**
+ * Whether two tiles are the wall top and wall side of the same A4 wall.
+ */
+const isSameWall = (tileId1: number, tileId2: number) =>
+  Tilemap.isTileA4(tileId1) &&
+  Tilemap.isTileA4(tileId2) &&
+  Tilemap.getAutotileKind(tileId1) - (Tilemap.isWallSideTile(tileId1) ? 8 : 0) ===
+    Tilemap.getAutotileKind(tileId2) - (Tilemap.isWallSideTile(tileId2) ? 8 : 0);
+
+/**
+ * Whether the A4 wall at (x, y) is raised, i.e. the first wall side below it stands on a wall top of the same wall.
+ * Raised walls are drawn as blocks on the ceiling beneath them.
+ */
+function isRaisedWall(map: MapLayers, x: number, y: number, z: number) {
+  const tileId = readTile(map, x, y, z);
+  const isWallAt = (y: number, side: boolean) =>
+    isSameWall(tileId, readTile(map, x, y, z)) && Tilemap.isWallSideTile(readTile(map, x, y, z)) === side;
+
+  while (isWallAt(y, false)) {
+    y++;
+  }
+  if (!isWallAt(y, true)) {
+    return false;
+  }
+  while (isWallAt(y + 1, true)) {
+    y++;
+  }
+  return isWallAt(y + 1, false);
+}
+
+/**
+ * Whether the autotile at (x, y) connects to the cell at (x + dx, y + dy).
+ *
+ * The rules follow the RPG Maker editor:
+ * - Cells outside the map are connected, except beside wall sides.
+ * - Tiles of the same kind are connected.
+ * - Water and waterfalls are connected to each other, whatever their kinds.
+ * - Waterfalls are connected to the walls beside them.
+ * - Wall tops are connected to the wall tops of their wall, except raised ones to the others.
+ *   Wall tops that are not raised are also connected to the raised wall sides of their wall.
+ * - Wall sides only connect horizontally if their walls end at the same row.
+ */
+function isConnected(map: MapLayers, x: number, y: number, z: number, dx: number, dy: number) {
+  const nx = x + dx;
+  const ny = y + dy;
+  const tileId = readTile(map, x, y, z);
+  if (!isInside(map, nx, ny)) {
+    return !(Tilemap.isWallSideTile(tileId) && dy === 0);
+  }
+  const other = readTile(map, nx, ny, z);
+
+  if (
+    (Tilemap.isWaterTile(tileId) && Tilemap.isWaterfallTile(other)) ||
+    (Tilemap.isWaterfallTile(tileId) && Tilemap.isWaterTile(other))
+  ) {
+    return true;
+  }
+  if (Tilemap.isWaterfallTile(tileId) && (Tilemap.isWallTypeAutotile(other) || Tilemap.isWallTopTile(other))) {
+    return true;
+  }
+  if (Tilemap.isWallTopTile(tileId) && isSameWall(tileId, other)) {
+    const raised = isRaisedWall(map, x, y, z);
+    const otherRaised = isRaisedWall(map, nx, ny, z);
+    return Tilemap.isWallSideTile(other) ? otherRaised && !raised : otherRaised || !raised;
+  }
+  if (!Tilemap.isSameKindTile(tileId, other)) {
+    return false;
+  }
+  if (Tilemap.isWallSideTile(tileId) && dy === 0) {
+    return getWallSideBottom(map, x, y, z) === getWallSideBottom(map, nx, ny, z);
+  }
+  return true;
+}
+
+function getFloorShape(map: MapLayers, x: number, y: number, z: number) {
+  const quarters = QUARTER_NEIGHBORS.map(([h, v, d], i) => {
+    const hc = isConnected(map, x, y, z, h[0], h[1]);
+    const vc = isConnected(map, x, y, z, v[0], v[1]);
+    const dc = isConnected(map, x, y, z, d[0], d[1]);
+    let state = 0;
+    if (!hc && !vc) {
+      state = 4;
+    } else if (!hc) {
+      state = 2;
+    } else if (!vc) {
+      state = 3;
+    } else if (!dc) {
+      state = 1;
+    }
+    return FLOOR_QUARTERS[i][state];
+  });
+
+  return Tilemap.FLOOR_AUTOTILE_TABLE.findIndex((table) =>
+    table.every(([qsx, qsy], i) => qsx === quarters[i][0] && qsy === quarters[i][1])
+  );
+}
+
+function getWallShape(map: MapLayers, x: number, y: number, z: number) {
+  let shape = 0;
+  if (!isConnected(map, x, y, z, -1, 0)) shape |= 1;
+  if (!isConnected(map, x, y, z, 0, -1)) shape |= 2;
+  if (!isConnected(map, x, y, z, 1, 0)) shape |= 4;
+  if (!isConnected(map, x, y, z, 0, 1)) shape |= 8;
+  return shape;
+}
+
+function getWaterfallShape(map: MapLayers, x: number, y: number, z: number) {
+  let shape = 0;
+  if (!isConnected(map, x, y, z, -1, 0)) shape |= 1;
+  if (!isConnected(map, x, y, z, 1, 0)) shape |= 2;
+  return shape;
+}
+
+/**
+ * Computes the autotile ID at (x, y) on layer z from its neighbors.
+ * Returns the tile ID unchanged if it is not an autotile.
+ */
+export function resolveAutotile(map: MapLayers, x: number, y: number, z: number) {
+  const tileId = readTile(map, x, y, z);
+  if (!Tilemap.isAutotile(tileId) || !Tilemap.isVisibleTile(tileId)) {
+    return tileId;
+  }
+
+  let shape: number;
+  if (Tilemap.isWaterfallTypeAutotile(tileId)) {
+    shape = getWaterfallShape(map, x, y, z);
+  } else if (Tilemap.isWallTypeAutotile(tileId)) {
+    shape = getWallShape(map, x, y, z);
+  } else {
+    shape = getFloorShape(map, x, y, z);
+  }
+  return Tilemap.makeAutotileId(Tilemap.getAutotileKind(tileId), shape);
+}
+
+/**
+ * Recomputes the autotile shapes of the cells around the painted cells on layer z.
+ * The map data is updated in place, and the changed cells are returned.
+ *
+ * Besides the 8 neighbors, the walls above the painted cells and their neighbors are also updated,
+ * since their connections depend on where the wall ends and what it stands on.
+ */
+export function refreshAutotiles(map: MapLayers, cells: Iterable<{ x: number; y: number }>, z: number) {
+  const targets = new Map<number, { x: number; y: number }>();
+  const addTargets = (x: number, y: number) => {
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        if (isInside(map, x + dx, y + dy)) {
+          targets.set((y + dy) * map.width + x + dx, { x: x + dx, y: y + dy });
+        }
+      }
+    }
+  };
+
+  for (const { x, y } of cells) {
+    addTargets(x, y);
+    for (let ny = y - 1; ny >= 0 && Tilemap.isWallTile(readTile(map, x, ny, z)); ny--) {
+      addTargets(x, ny);
+    }
+  }
+
+  const changes: Array<MapCellChange> = [];
+  for (const { x, y } of targets.values()) {
+    const tileId = resolveAutotile(map, x, y, z);
+    const index = (z * map.height + y) * map.width + x;
+    if (map.data[index] !== tileId) {
+      map.data[index] = tileId;
+      changes.push({ x, y, z, tileId });
+    }
+  }
+  return changes;
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import type { MapLayers } from './autotile';
+import { getBrushTile, getEllipsePoints, getFillPoints, getLinePoints, getRectanglePoints } from './brush';
+import { LAYER_COUNT } from './layers';
+import { Tilemap } from './rmmv';
+
+describe('getBrushTile', () => {
+  it('repeats the pattern of the brush from the origin, also before it', () => {
+    const brush = { width: 2, height: 2, tileIds: [1, 2, 3, 4] };
+    expect(getBrushTile(brush, 5, 5, 5, 5)).toBe(1);
+    expect(getBrushTile(brush, 5, 5, 6, 5)).toBe(2);
+    expect(getBrushTile(brush, 5, 5, 7, 6)).toBe(3);
+    expect(getBrushTile(brush, 5, 5, 4, 4)).toBe(4);
+  });
+});
+
+describe('shapes', () => {
+  it('draws lines without gaps, in both directions', () => {
+    expect(getLinePoints(0, 0, 3, 1)).toEqual([
+      { x: 0, y: 0 },
+      { x: 1, y: 0 },
+      { x: 2, y: 1 },
+      { x: 3, y: 1 }
+    ]);
+    expect(getLinePoints(3, 1, 0, 0)).toHaveLength(4);
+    expect(getLinePoints(2, 2, 2, 2)).toEqual([{ x: 2, y: 2 }]);
+  });
+
+  it('fills rectangles and ellipses from any two corners', () => {
+    expect(getRectanglePoints(2, 1, 0, 0)).toHaveLength(6);
+    // The corners of a 5x5 ellipse are outside
+    const ellipse = getEllipsePoints(4, 4, 0, 0);
+    expect(ellipse).toHaveLength(21);
+    expect(ellipse).not.toContainEqual({ x: 0, y: 0 });
+    expect(ellipse).toContainEqual({ x: 1, y: 0 });
+    expect(getEllipsePoints(6, 6, 6, 6)).toEqual([{ x: 6, y: 6 }]);
+  });
+});
+
+describe('getFillPoints', () => {
+  const FLOOR = Tilemap.makeAutotileId(16, 0);
+
+  /** A 4x3 map with a wall of tile 1 cutting layer 1, and an autotile of several shapes on the left */
+  const createMap = (): MapLayers => {
+    const data = new Array<number>(4 * 3 * LAYER_COUNT).fill(0);
+    data.splice(0, 12, ...[FLOOR, FLOOR + 20, 1, 0], ...[FLOOR + 33, FLOOR, 1, 0], ...[FLOOR, FLOOR + 46, 1, 0]);
+    return { width: 4, height: 3, data };
+  };
+
+  it('fills the contiguous cells with the same autotile, whatever their shape', () => {
+    expect(getFillPoints(createMap(), 0, 0, 0)).toHaveLength(6);
+    expect(getFillPoints(createMap(), 3, 1, 0)).toHaveLength(3);
+  });
+
+  it('fills on the given layer, and nothing outside the map', () => {
+    const map = createMap();
+    // The regions of layer 6
+    map.data[5 * 12 + 3] = 7;
+    expect(getFillPoints(map, 0, 0, 5)).toHaveLength(11);
+    expect(getFillPoints(map, 3, 0, 5)).toEqual([{ x: 3, y: 0 }]);
+    expect(getFillPoints(map, 4, 0, 0)).toEqual([]);
+  });
+});
@@ -0,0 +1,109 @@
+import type { MapLayers } from './autotile';
+import type { Brush } from './protocol';
+import { Tilemap } from './rmmv';
+
+export type MapPoint = { x: number; y: number };
+
+/**
+ * Returns the tile of the brush painted at (x, y).
+ * Multi-tile brushes repeat their pattern from the origin (originX, originY), where the drag started.
+ */
+export function getBrushTile(brush: Brush, originX: number, originY: number, x: number, y: number) {
+  const bx = (((x - originX) % brush.width) + brush.width) % brush.width;
+  const by = (((y - originY) % brush.height) + brush.height) % brush.height;
+  return brush.tileIds[by * brush.width + bx] ?? 0;
+}
+
+/**
+ * Returns the cells of the line from (x0, y0) to (x1, y1), without gaps.
+ */
+export function getLinePoints(x0: number, y0: number, x1: number, y1: number) {
+  const points: Array<MapPoint> = [];
+  const dx = Math.abs(x1 - x0);
+  const dy = -Math.abs(y1 - y0);
+  const sx = x0 < x1 ? 1 : -1;
+  const sy = y0 < y1 ? 1 : -1;
+  let error = dx + dy;
+  for (;;) {
+    points.push({ x: x0, y: y0 });
+    if (x0 === x1 && y0 === y1) {
+      return points;
+    }
+    const e2 = 2 * error;
+    if (e2 >= dy) {
+      error += dy;
+      x0 += sx;
+    }
+    if (e2 <= dx) {
+      error += dx;
+      y0 += sy;
+    }
+  }
+}
+
+/**
+ * Returns the cells of the filled rectangle with the corners (x0, y0) and (x1, y1).
+ */
+export function getRectanglePoints(x0: number, y0: number, x1: number, y1: number) {
+  const points: Array<MapPoint> = [];
+  for (let y = Math.min(y0, y1); y <= Math.max(y0, y1); y++) {
+    for (let x = Math.min(x0, x1); x <= Math.max(x0, x1); x++) {
+      points.push({ x, y });
+    }
+  }
+  return points;
+}
+
+/**
+ * Returns the cells of the filled ellipse inscribed in the rectangle with the corners (x0, y0) and (x1, y1).
+ * A cell is inside when its center is.
+ */
+export function getEllipsePoints(x0: number, y0: number, x1: number, y1: number) {
+  const left = Math.min(x0, x1);
+  const top = Math.min(y0, y1);
+  const rx = (Math.abs(x1 - x0) + 1) / 2;
+  const ry = (Math.abs(y1 - y0) + 1) / 2;
+  return getRectanglePoints(x0, y0, x1, y1).filter(({ x, y }) => {
+    const nx = (x + 0.5 - left - rx) / rx;
+    const ny = (y + 0.5 - top - ry) / ry;
+    return nx * nx + ny * ny <= 1;
+  });
+}
+
+/**
+ * Returns the contiguous cells around (x, y) with the same tile on layer z.
+ * Autotiles of the same kind are the same tile, whatever their shape.
+ */
+export function getFillPoints(map: MapLayers, x: number, y: number, z: number) {
+  const { width, height, data } = map;
+  if (x < 0 || x >= width || y < 0 || y >= height) {
+    return [];
+  }
+  const tileAt = (cx: number, cy: number) => data[(z * height + cy) * width + cx] ?? 0;
+  const tileId = tileAt(x, y);
+  const visited = new Uint8Array(width * height);
+  const points: Array<MapPoint> = [];
+  const stack: Array<MapPoint> = [{ x, y }];
+  visited[y * width + x] = 1;
+  while (stack.length > 0) {
+    const point = stack.pop() as MapPoint;
+    points.push(point);
+    for (const [dx, dy] of [
+      [1, 0],
+      [-1, 0],
+      [0, 1],
+      [0, -1]
+    ]) {
+      const nx = point.x + dx;
+      const ny = point.y + dy;
+      if (nx < 0 || nx >= width || ny < 0 || ny >= height || visited[ny * width + nx]) {
+        continue;
+      }
+      if (Tilemap.isSameKindTile(tileId, tileAt(nx, ny))) {
+        visited[ny * width + nx] = 1;
+        stack.push({ x: nx, y: ny });
+      }
+    }
+  }
+  return points;
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { clearMapArea, clipRect, copyMapArea, pasteMapArea, type MapArea } from './clipboard';
+import { createEvent } from './events';
+import { LAYER_COUNT } from './layers';
+import { Tilemap } from './rmmv';
+
+const FLOOR = Tilemap.makeAutotileId(16, 0);
+
+/** A 3x3 map of floor on layer 1, with region 1 in the center cell and an event at (1, 1) */
+const createMap = (): MapArea => {
+  const data = new Array<number>(3 * 3 * LAYER_COUNT).fill(0);
+  data.fill(FLOOR, 0, 9);
+  data[5 * 9 + 4] = 1;
+  return { tilesetId: 1, width: 3, height: 3, data, events: [null, createEvent(1, 1, 1)] };
+};
+
+const tileAt = (map: MapArea, x: number, y: number, z: number) => map.data[(z * map.height + y) * map.width + x];
+
+describe('clipRect', () => {
+  it('returns the part of the rectangle inside the map', () => {
+    expect(clipRect(createMap(), { x: -1, y: 2, width: 3, height: 3 })).toEqual({ x: 0, y: 2, width: 2, height: 1 });
+    expect(clipRect(createMap(), { x: 4, y: 0, width: 2, height: 2 })).toMatchObject({ width: 0 });
+  });
+});
+
+describe('copyMapArea', () => {
+  it('copies all six layers, and the events relative to the rectangle', () => {
+    const clip = copyMapArea(createMap(), { x: 1, y: 1, width: 5, height: 5 }, true);
+    expect(clip).toMatchObject({ tilesetId: 1, width: 2, height: 2 });
+    expect(clip.data).toHaveLength(2 * 2 * LAYER_COUNT);
+    expect(clip.data[5 * 4]).toBe(1);
+    expect(clip.events).toEqual([createEvent(1, 0, 0)]);
+    expect(copyMapArea(createMap(), { x: 1, y: 1, width: 1, height: 1 }, false).events).toEqual([]);
+  });
+});
+
+describe('clearMapArea', () => {
+  it('clears the layers, deletes the events and updates the autotiles around', () => {
+    const map = createMap();
+    const edit = clearMapArea(map, { x: 1, y: 1, width: 1, height: 1 }, true);
+    expect(tileAt(map, 1, 1, 0)).toBe(0);
+    expect(tileAt(map, 1, 1, 5)).toBe(0);
+    expect(map.events).toEqual([null, null]);
+    expect(edit.deletedEventIds).toEqual([1]);
+    // The floor above now has an edge at the bottom
+    expect(tileAt(map, 1, 0, 0)).toBe(Tilemap.makeAutotileId(16, 28));
+    expect(edit.changes).toContainEqual({ x: 1, y: 0, z: 0, tileId: Tilemap.makeAutotileId(16, 28) });
+    expect(edit.changes).toContainEqual({ x: 1, y: 1, z: 5, tileId: 0 });
+  });
+});
+
+describe('pasteMapArea', () => {
+  it('pastes the clip inside the map with new event IDs, skipping occupied cells', () => {
+    const map = createMap();
+    const clip = copyMapArea(map, { x: 1, y: 1, width: 1, height: 1 }, true);
+    clearMapArea(map, { x: 0, y: 0, width: 3, height: 3 }, false);
+
+    const edit = pasteMapArea(map, clip, 2, 2);
+    expect(tileAt(map, 2, 2, 0)).toBe(Tilemap.makeAutotileId(16, 34));
+    expect(tileAt(map, 2, 2, 5)).toBe(1);
+    // The event at (1, 1) was kept, so the pasted one gets a new ID and keeps its name
+    expect(edit.events).toEqual([{ ...createEvent(1, 2, 2), id: 2 }]);
+    expect(map.events?.[2]).toEqual(edit.events[0]);
+
+    expect(pasteMapArea(map, clip, 1, 1).events).toEqual([]);
+    expect(pasteMapArea(map, clip, 3, 0)).toEqual({ changes: [], events: [], deletedEventIds: [] });
+  });
+});
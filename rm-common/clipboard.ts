@@ -0,0 +1,142 @@
+import { refreshAutotiles } from './autotile';
+import { allocateEventId, findEventAt, type MapEvent } from './events';
+import { LAYER_COUNT } from './layers';
+import type { MapAreaEdit, MapCellChange, MapClip } from './protocol';
+import type { MapData } from './rmmv';
+
+export type MapRect = { x: number; y: number; width: number; height: number };
+
+/**
+ * The part of the map data edited by the selection tool.
+ */
+export type MapArea = Pick<MapData, 'tilesetId' | 'width' | 'height' | 'data' | 'events'>;
+
+/**
+ * Returns the part of the rectangle inside the map.
+ */
+export function clipRect(map: MapArea, rect: MapRect): MapRect {
+  const x = Math.max(rect.x, 0);
+  const y = Math.max(rect.y, 0);
+  const width = Math.min(rect.x + rect.width, map.width) - x;
+  const height = Math.min(rect.y + rect.height, map.height) - y;
+  return { x, y, width: Math.max(width, 0), height: Math.max(height, 0) };
+}
+
+function getEventsInRect(map: MapArea, rect: MapRect) {
+  return (map.events ?? []).filter(
+    (event): event is MapEvent =>
+      !!event &&
+      event.x >= rect.x &&
+      event.x < rect.x + rect.width &&
+      event.y >= rect.y &&
+      event.y < rect.y + rect.height
+  );
+}
+
+/**
+ * Returns the cells on the border of the rectangle, whose autotiles connect to the outside.
+ */
+function getBorderCells(rect: MapRect) {
+  const cells: Array<{ x: number; y: number }> = [];
+  for (let y = rect.y; y < rect.y + rect.height; y++) {
+    for (let x = rect.x; x < rect.x + rect.width; x++) {
+      if (x === rect.x || y === rect.y || x === rect.x + rect.width - 1 || y === rect.y + rect.height - 1) {
+        cells.push({ x, y });
+      }
+    }
+  }
+  return cells;
+}
+
+function setCell(map: MapArea, x: number, y: number, z: number, tileId: number, changes: Array<MapCellChange>) {
+  const index = (z * map.height + y) * map.width + x;
+  if ((map.data[index] ?? 0) !== tileId) {
+    map.data[index] = tileId;
+    changes.push({ x, y, z, tileId });
+  }
+}
+
+/**
+ * Copies the six layers of the rectangle, and the events inside it if `withEvents` is set.
+ */
+export function copyMapArea(map: MapArea, rect: MapRect, withEvents: boolean): MapClip {
+  const { x, y, width, height } = clipRect(map, rect);
+  const data: Array<number> = [];
+  for (let z = 0; z < LAYER_COUNT; z++) {
+    for (let dy = 0; dy < height; dy++) {
+      for (let dx = 0; dx < width; dx++) {
+        data.push(map.data[(z * map.height + y + dy) * map.width + x + dx] ?? 0);
+      }
+    }
+  }
+  const events = withEvents
+    ? getEventsInRect(map, { x, y, width, height }).map((event) => ({ ...event, x: event.x - x, y: event.y - y }))
+    : [];
+  return { tilesetId: map.tilesetId, width, height, data, events };
+}
+
+/**
+ * Clears the six layers of the rectangle, and deletes the events inside it if `withEvents` is set.
+ * Autotiles around the rectangle are updated. The map is edited in place.
+ */
+export function clearMapArea(map: MapArea, rect: MapRect, withEvents: boolean): MapAreaEdit {
+  const area = clipRect(map, rect);
+  const changes: Array<MapCellChange> = [];
+  for (let z = 0; z < LAYER_COUNT; z++) {
+    for (let y = area.y; y < area.y + area.height; y++) {
+      for (let x = area.x; x < area.x + area.width; x++) {
+        setCell(map, x, y, z, 0, changes);
+      }
+    }
+  }
+  for (let z = 0; z < 4; z++) {
+    changes.push(...refreshAutotiles(map, getBorderCells(area), z));
+  }
+
+  const deletedEventIds: Array<number> = [];
+  if (withEvents && map.events) {
+    for (const event of getEventsInRect(map, area)) {
+      map.events[event.id] = null;
+      deletedEventIds.push(event.id);
+    }
+  }
+  return { changes, events: [], deletedEventIds };
+}
+
+/**
+ * Pastes the clip with its top-left corner at (x, y). The part outside the map is dropped.
+ * Autotiles on the border of the pasted rectangle are updated to connect with their new surroundings.
+ * Events get new IDs, and are skipped where another event already is. The map is edited in place.
+ */
+export function pasteMapArea(map: MapArea, clip: MapClip, x: number, y: number): MapAreaEdit {
+  const area = clipRect(map, { x, y, width: clip.width, height: clip.height });
+  const changes: Array<MapCellChange> = [];
+  for (let z = 0; z < LAYER_COUNT; z++) {
+    for (let cy = area.y; cy < area.y + area.height; cy++) {
+      for (let cx = area.x; cx < area.x + area.width; cx++) {
+        const tileId = clip.data[(z * clip.height + cy - y) * clip.width + cx - x] ?? 0;
+        setCell(map, cx, cy, z, tileId, changes);
+      }
+    }
+  }
+  for (let z = 0; z < 4; z++) {
+    changes.push(...refreshAutotiles(map, getBorderCells(area), z));
+  }
+
+  const events: Array<MapEvent> = [];
+  for (const clipEvent of clip.events) {
+    const ex = clipEvent.x + x;
+    const ey = clipEvent.y + y;
+    if (ex < 0 || ex >= map.width || ey < 0 || ey >= map.height || findEventAt(map.events, ex, ey)) {
+      continue;
+    }
+    map.events ??= [null];
+    const event = { ...structuredClone(clipEvent), id: allocateEventId(map.events), x: ex, y: ey };
+    while (map.events.length <= event.id) {
+      map.events.push(null);
+    }
+    map.events[event.id] = event;
+    events.push(event);
+  }
+  return { changes, events, deletedEventIds: [] };
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { describeCommand, EventCode, getCommandGroupEnd, isContinuationCommand } from './commands';
+import type { EventCommand } from './events';
+
+const command = (code: number, indent: number, ...parameters: Array<unknown>): EventCommand => ({
+  code,
+  indent,
+  parameters
+});
+
+describe('getCommandGroupEnd', () => {
+  it('includes the lines of text after the command', () => {
+    const list = [
+      command(EventCode.ShowText, 0, '', 0, 0, 2),
+      command(EventCode.TextData, 0, 'Hello'),
+      command(EventCode.TextData, 0, 'World'),
+      command(EventCode.ShowText, 0, '', 0, 0, 2),
+      command(EventCode.End, 0)
+    ];
+    expect(getCommandGroupEnd(list, 0)).toBe(3);
+    expect(getCommandGroupEnd(list, 3)).toBe(4);
+  });
+
+  it('includes the branches of a block and the commands inside them', () => {
+    const list = [
+      command(EventCode.ConditionalBranch, 0, 0, 1, 0),
+      command(EventCode.Wait, 1, 60),
+      command(EventCode.End, 1),
+      command(EventCode.Else, 0),
+      command(EventCode.End, 1),
+      command(EventCode.BranchEnd, 0),
+      command(EventCode.End, 0)
+    ];
+    expect(getCommandGroupEnd(list, 0)).toBe(6);
+    expect(getCommandGroupEnd(list, 1)).toBe(2);
+  });
+});
+
+describe('isContinuationCommand', () => {
+  it('tells the lines and branches of other commands apart', () => {
+    expect(isContinuationCommand(command(EventCode.TextData, 0, 'Hello'))).toBe(true);
+    expect(isContinuationCommand(command(EventCode.Else, 0))).toBe(true);
+    expect(isContinuationCommand(command(EventCode.ShowText, 0, '', 0, 0, 2))).toBe(false);
+  });
+});
+
+describe('describeCommand', () => {
+  it('describes commands as the contents list of RPG Maker', () => {
+    expect(describeCommand(command(EventCode.ControlSwitches, 0, 1, 1, 0))).toBe('◆Control Switches: #0001 = ON');
+    expect(describeCommand(command(EventCode.ControlVariables, 0, 2, 3, 1, 2, 1, 10))).toBe(
+      '◆Control Variables: #0002..#0003 += Random 1..10'
+    );
+    expect(describeCommand(command(EventCode.TransferPlayer, 0, 0, 5, 10, 3, 0, 0))).toBe(
+      '◆Transfer Player: Map #005 (10,3)'
+    );
+    expect(describeCommand(command(EventCode.TextData, 0, 'Hello'))).toBe('\u3000: Hello');
+    expect(describeCommand(command(EventCode.BranchEnd, 0))).toBe(': End');
+    expect(describeCommand(command(999, 0))).toBe('◆Unknown Command (999)');
+  });
+});
@@ -0,0 +1,612 @@
+import type { EventCommand, MoveCommand } from './events';
+
+/**
+ * The codes of event commands of RPG Maker MV and MZ.
+ * Codes from 400 are the continuation lines and branches of the command 300 below them.
+ */
+export const EventCode = {
+  End: 0,
+  ShowText: 101,
+  ShowChoices: 102,
+  InputNumber: 103,
+  SelectItem: 104,
+  ShowScrollingText: 105,
+  Comment: 108,
+  Skip: 109,
+  ConditionalBranch: 111,
+  Loop: 112,
+  BreakLoop: 113,
+  ExitEventProcessing: 115,
+  CommonEvent: 117,
+  Label: 118,
+  JumpToLabel: 119,
+  ControlSwitches: 121,
+  ControlVariables: 122,
+  ControlSelfSwitch: 123,
+  ControlTimer: 124,
+  ChangeGold: 125,
+  ChangeItems: 126,
+  ChangeWeapons: 127,
+  ChangeArmors: 128,
+  ChangePartyMember: 129,
+  ChangeBattleBgm: 132,
+  ChangeVictoryMe: 133,
+  ChangeSaveAccess: 134,
+  ChangeMenuAccess: 135,
+  ChangeEncounter: 136,
+  ChangeFormationAccess: 137,
+  ChangeWindowColor: 138,
+  ChangeDefeatMe: 139,
+  ChangeVehicleBgm: 140,
+  TransferPlayer: 201,
+  SetVehicleLocation: 202,
+  SetEventLocation: 203,
+  ScrollMap: 204,
+  SetMovementRoute: 205,
+  GetOnOffVehicle: 206,
+  ChangeTransparency: 211,
+  ShowAnimation: 212,
+  ShowBalloonIcon: 213,
+  EraseEvent: 214,
+  ChangePlayerFollowers: 216,
+  GatherFollowers: 217,
+  FadeoutScreen: 221,
+  FadeinScreen: 222,
+  TintScreen: 223,
+  FlashScreen: 224,
+  ShakeScreen: 225,
+  Wait: 230,
+  ShowPicture: 231,
+  MovePicture: 232,
+  RotatePicture: 233,
+  TintPicture: 234,
+  ErasePicture: 235,
+  SetWeatherEffect: 236,
+  PlayBgm: 241,
+  FadeoutBgm: 242,
+  SaveBgm: 243,
+  ResumeBgm: 244,
+  PlayBgs: 245,
+  FadeoutBgs: 246,
+  PlayMe: 249,
+  PlaySe: 250,
+  StopSe: 251,
+  PlayMovie: 261,
+  ChangeMapNameDisplay: 281,
+  ChangeTileset: 282,
+  ChangeBattleBackground: 283,
+  ChangeParallax: 284,
+  GetLocationInfo: 285,
+  BattleProcessing: 301,
+  ShopProcessing: 302,
+  NameInputProcessing: 303,
+  ChangeHp: 311,
+  ChangeMp: 312,
+  ChangeState: 313,
+  RecoverAll: 314,
+  ChangeExp: 315,
+  ChangeLevel: 316,
+  ChangeParameter: 317,
+  ChangeSkill: 318,
+  ChangeEquipment: 319,
+  ChangeName: 320,
+  ChangeClass: 321,
+  ChangeActorImages: 322,
+  ChangeVehicleImage: 323,
+  ChangeNickname: 324,
+  ChangeProfile: 325,
+  ChangeTp: 326,
+  ChangeEnemyHp: 331,
+  ChangeEnemyMp: 332,
+  ChangeEnemyState: 333,
+  EnemyRecoverAll: 334,
+  EnemyAppear: 335,
+  EnemyTransform: 336,
+  ShowBattleAnimation: 337,
+  ForceAction: 339,
+  AbortBattle: 340,
+  ChangeEnemyTp: 342,
+  OpenMenuScreen: 351,
+  OpenSaveScreen: 352,
+  GameOver: 353,
+  ReturnToTitleScreen: 354,
+  Script: 355,
+  PluginCommandMV: 356,
+  PluginCommandMZ: 357,
+  TextData: 401,
+  When: 402,
+  WhenCancel: 403,
+  ChoicesEnd: 404,
+  ScrollingTextData: 405,
+  CommentData: 408,
+  Else: 411,
+  BranchEnd: 412,
+  RepeatAbove: 413,
+  MoveRouteData: 505,
+  IfWin: 601,
+  IfEscape: 602,
+  IfLose: 603,
+  BattleEnd: 604,
+  ShopItem: 605,
+  ScriptData: 655,
+  PluginCommandData: 657
+} as const;
+
+/**
+ * An audio file played by a command, or set as the BGM of a map.
+ */
+export type AudioFile = {
+  name: string;
+  pan: number;
+  pitch: number;
+  volume: number;
+};
+
+type TypedCommand<C extends number, P extends Array<unknown>> = { code: C; indent: number; parameters: P };
+
+export type ShowTextCommand = TypedCommand<
+  typeof EventCode.ShowText,
+  [faceName: string, faceIndex: number, background: number, positionType: number, speakerName?: string]
+>;
+export type TextDataCommand = TypedCommand<typeof EventCode.TextData, [text: string]>;
+export type ShowChoicesCommand = TypedCommand<
+  typeof EventCode.ShowChoices,
+  [choices: Array<string>, cancelType: number, defaultType?: number, positionType?: number, background?: number]
+>;
+export type WhenCommand = TypedCommand<typeof EventCode.When, [index: number, text: string]>;
+export type CommentCommand = TypedCommand<typeof EventCode.Comment | typeof EventCode.CommentData, [text: string]>;
+export type ConditionalBranchCommand = TypedCommand<
+  typeof EventCode.ConditionalBranch,
+  [type: number, ...Array<unknown>]
+>;
+export type CommonEventCommand = TypedCommand<typeof EventCode.CommonEvent, [commonEventId: number]>;
+export type LabelCommand = TypedCommand<typeof EventCode.Label | typeof EventCode.JumpToLabel, [name: string]>;
+/** `value` is 0 for ON and 1 for OFF */
+export type ControlSwitchesCommand = TypedCommand<
+  typeof EventCode.ControlSwitches,
+  [startId: number, endId: number, value: number]
+>;
+export type ControlVariablesCommand = TypedCommand<
+  typeof EventCode.ControlVariables,
+  [startId: number, endId: number, operationType: number, operandType: number, ...operand: Array<unknown>]
+>;
+/** `value` is 0 for ON and 1 for OFF */
+export type ControlSelfSwitchCommand = TypedCommand<typeof EventCode.ControlSelfSwitch, [ch: string, value: number]>;
+export type ControlTimerCommand = TypedCommand<typeof EventCode.ControlTimer, [operation: number, seconds?: number]>;
+export type ChangeGoldCommand = TypedCommand<
+  typeof EventCode.ChangeGold,
+  [operation: number, operandType: number, operand: number]
+>;
+/** With `designation` 1, the map ID and the position are variable IDs */
+export type TransferPlayerCommand = TypedCommand<
+  typeof EventCode.TransferPlayer,
+  [designation: number, mapId: number, x: number, y: number, direction: number, fadeType: number]
+>;
+/** `characterId` is -1 for the player, 0 for this event, and the ID of another event otherwise */
+export type SetMovementRouteCommand = TypedCommand<
+  typeof EventCode.SetMovementRoute,
+  [characterId: number, moveRoute: unknown]
+>;
+export type MoveRouteDataCommand = TypedCommand<typeof EventCode.MoveRouteData, [moveCommand: MoveCommand]>;
+export type WaitCommand = TypedCommand<typeof EventCode.Wait, [duration: number]>;
+export type PlayAudioCommand = TypedCommand<
+  typeof EventCode.PlayBgm | typeof EventCode.PlayBgs | typeof EventCode.PlayMe | typeof EventCode.PlaySe,
+  [audio: AudioFile]
+>;
+export type ScriptCommand = TypedCommand<typeof EventCode.Script | typeof EventCode.ScriptData, [script: string]>;
+export type PluginCommandMVCommand = TypedCommand<typeof EventCode.PluginCommandMV, [command: string]>;
+export type PluginCommandMZCommand = TypedCommand<
+  typeof EventCode.PluginCommandMZ,
+  [pluginName: string, commandName: string, comment: string, args: Record<string, string>]
+>;
+
+/**
+ * The commands whose parameters are known. Other commands are kept as plain `EventCommand`s.
+ */
+export type KnownEventCommand =
+  | ShowTextCommand
+  | TextDataCommand
+  | ShowChoicesCommand
+  | WhenCommand
+  | CommentCommand
+  | ConditionalBranchCommand
+  | CommonEventCommand
+  | LabelCommand
+  | ControlSwitchesCommand
+  | ControlVariablesCommand
+  | ControlSelfSwitchCommand
+  | ControlTimerCommand
+  | ChangeGoldCommand
+  | TransferPlayerCommand
+  | SetMovementRouteCommand
+  | MoveRouteDataCommand
+  | WaitCommand
+  | PlayAudioCommand
+  | ScriptCommand
+  | PluginCommandMVCommand
+  | PluginCommandMZCommand;
+
+/**
+ * Whether the command has the given code, narrowing its parameters.
+ */
+export function isCommand<C extends KnownEventCommand['code']>(
+  command: EventCommand,
+  code: C
+): command is KnownEventCommand & { code: C } {
+  return command.code === code;
+}
+
+const COMMAND_NAMES: Record<number, string> = {
+  [EventCode.ShowText]: 'Text',
+  [EventCode.ShowChoices]: 'Show Choices',
+  [EventCode.InputNumber]: 'Input Number',
+  [EventCode.SelectItem]: 'Select Item',
+  [EventCode.ShowScrollingText]: 'Text (S)',
+  [EventCode.Comment]: 'Comment',
+  [EventCode.Skip]: 'Skip',
+  [EventCode.ConditionalBranch]: 'If',
+  [EventCode.Loop]: 'Loop',
+  [EventCode.BreakLoop]: 'Break Loop',
+  [EventCode.ExitEventProcessing]: 'Exit Event Processing',
+  [EventCode.CommonEvent]: 'Common Event',
+  [EventCode.Label]: 'Label',
+  [EventCode.JumpToLabel]: 'Jump to Label',
+  [EventCode.ControlSwitches]: 'Control Switches',
+  [EventCode.ControlVariables]: 'Control Variables',
+  [EventCode.ControlSelfSwitch]: 'Control Self Switch',
+  [EventCode.ControlTimer]: 'Control Timer',
+  [EventCode.ChangeGold]: 'Change Gold',
+  [EventCode.ChangeItems]: 'Change Items',
+  [EventCode.ChangeWeapons]: 'Change Weapons',
+  [EventCode.ChangeArmors]: 'Change Armors',
+  [EventCode.ChangePartyMember]: 'Change Party Member',
+  [EventCode.ChangeBattleBgm]: 'Change Battle BGM',
+  [EventCode.ChangeVictoryMe]: 'Change Victory ME',
+  [EventCode.ChangeSaveAccess]: 'Change Save Access',
+  [EventCode.ChangeMenuAccess]: 'Change Menu Access',
+  [EventCode.ChangeEncounter]: 'Change Encounter',
+  [EventCode.ChangeFormationAccess]: 'Change Formation Access',
+  [EventCode.ChangeWindowColor]: 'Change Window Color',
+  [EventCode.ChangeDefeatMe]: 'Change Defeat ME',
+  [EventCode.ChangeVehicleBgm]: 'Change Vehicle BGM',
+  [EventCode.TransferPlayer]: 'Transfer Player',
+  [EventCode.SetVehicleLocation]: 'Set Vehicle Location',
+  [EventCode.SetEventLocation]: 'Set Event Location',
+  [EventCode.ScrollMap]: 'Scroll Map',
+  [EventCode.SetMovementRoute]: 'Set Movement Route',
+  [EventCode.GetOnOffVehicle]: 'Get on/off Vehicle',
+  [EventCode.ChangeTransparency]: 'Change Transparency',
+  [EventCode.ShowAnimation]: 'Show Animation',
+  [EventCode.ShowBalloonIcon]: 'Show Balloon Icon',
+  [EventCode.EraseEvent]: 'Erase Event',
+  [EventCode.ChangePlayerFollowers]: 'Change Player Followers',
+  [EventCode.GatherFollowers]: 'Gather Followers',
+  [EventCode.FadeoutScreen]: 'Fadeout Screen',
+  [EventCode.FadeinScreen]: 'Fadein Screen',
+  [EventCode.TintScreen]: 'Tint Screen',
+  [EventCode.FlashScreen]: 'Flash Screen',
+  [EventCode.ShakeScreen]: 'Shake Screen',
+  [EventCode.Wait]: 'Wait',
+  [EventCode.ShowPicture]: 'Show Picture',
+  [EventCode.MovePicture]: 'Move Picture',
+  [EventCode.RotatePicture]: 'Rotate Picture',
+  [EventCode.TintPicture]: 'Tint Picture',
+  [EventCode.ErasePicture]: 'Erase Picture',
+  [EventCode.SetWeatherEffect]: 'Set Weather Effect',
+  [EventCode.PlayBgm]: 'Play BGM',
+  [EventCode.FadeoutBgm]: 'Fadeout BGM',
+  [EventCode.SaveBgm]: 'Save BGM',
+  [EventCode.ResumeBgm]: 'Resume BGM',
+  [EventCode.PlayBgs]: 'Play BGS',
+  [EventCode.FadeoutBgs]: 'Fadeout BGS',
+  [EventCode.PlayMe]: 'Play ME',
+  [EventCode.PlaySe]: 'Play SE',
+  [EventCode.StopSe]: 'Stop SE',
+  [EventCode.PlayMovie]: 'Play Movie',
+  [EventCode.ChangeMapNameDisplay]: 'Change Map Name Display',
+  [EventCode.ChangeTileset]: 'Change Tileset',
+  [EventCode.ChangeBattleBackground]: 'Change Battle Background',
+  [EventCode.ChangeParallax]: 'Change Parallax',
+  [EventCode.GetLocationInfo]: 'Get Location Info',
+  [EventCode.BattleProcessing]: 'Battle Processing',
+  [EventCode.ShopProcessing]: 'Shop Processing',
+  [EventCode.NameInputProcessing]: 'Name Input Processing',
+  [EventCode.ChangeHp]: 'Change HP',
+  [EventCode.ChangeMp]: 'Change MP',
+  [EventCode.ChangeState]: 'Change State',
+  [EventCode.RecoverAll]: 'Recover All',
+  [EventCode.ChangeExp]: 'Change EXP',
+  [EventCode.ChangeLevel]: 'Change Level',
+  [EventCode.ChangeParameter]: 'Change Parameter',
+  [EventCode.ChangeSkill]: 'Change Skill',
+  [EventCode.ChangeEquipment]: 'Change Equipment',
+  [EventCode.ChangeName]: 'Change Name',
+  [EventCode.ChangeClass]: 'Change Class',
+  [EventCode.ChangeActorImages]: 'Change Actor Images',
+  [EventCode.ChangeVehicleImage]: 'Change Vehicle Image',
+  [EventCode.ChangeNickname]: 'Change Nickname',
+  [EventCode.ChangeProfile]: 'Change Profile',
+  [EventCode.ChangeTp]: 'Change TP',
+  [EventCode.ChangeEnemyHp]: 'Change Enemy HP',
+  [EventCode.ChangeEnemyMp]: 'Change Enemy MP',
+  [EventCode.ChangeEnemyState]: 'Change Enemy State',
+  [EventCode.EnemyRecoverAll]: 'Enemy Recover All',
+  [EventCode.EnemyAppear]: 'Enemy Appear',
+  [EventCode.EnemyTransform]: 'Enemy Transform',
+  [EventCode.ShowBattleAnimation]: 'Show Battle Animation',
+  [EventCode.ForceAction]: 'Force Action',
+  [EventCode.AbortBattle]: 'Abort Battle',
+  [EventCode.ChangeEnemyTp]: 'Change Enemy TP',
+  [EventCode.OpenMenuScreen]: 'Open Menu Screen',
+  [EventCode.OpenSaveScreen]: 'Open Save Screen',
+  [EventCode.GameOver]: 'Game Over',
+  [EventCode.ReturnToTitleScreen]: 'Return to Title Screen',
+  [EventCode.Script]: 'Script',
+  [EventCode.PluginCommandMV]: 'Plugin Command',
+  [EventCode.PluginCommandMZ]: 'Plugin Command'
+};
+
+const MOVE_COMMAND_NAMES = [
+  'End',
+  'Move Down',
+  'Move Left',
+  'Move Right',
+  'Move Up',
+  'Move Lower Left',
+  'Move Lower Right',
+  'Move Upper Left',
+  'Move Upper Right',
+  'Move at Random',
+  'Move toward Player',
+  'Move away from Player',
+  '1 Step Forward',
+  '1 Step Backward',
+  'Jump',
+  'Wait',
+  'Turn Down',
+  'Turn Left',
+  'Turn Right',
+  'Turn Up',
+  'Turn 90° Right',
+  'Turn 90° Left',
+  'Turn 180°',
+  'Turn 90° Right or Left',
+  'Turn at Random',
+  'Turn toward Player',
+  'Turn away from Player',
+  'Switch ON',
+  'Switch OFF',
+  'Change Speed',
+  'Change Frequency',
+  'Walking Animation ON',
+  'Walking Animation OFF',
+  'Stepping Animation ON',
+  'Stepping Animation OFF',
+  'Direction Fix ON',
+  'Direction Fix OFF',
+  'Through ON',
+  'Through OFF',
+  'Transparent ON',
+  'Transparent OFF',
+  'Change Image',
+  'Change Opacity',
+  'Change Blend Mode',
+  'Play SE',
+  'Script'
+];
+
+/** The lines following a command which belong to it */
+const CONTINUATION_CODES: Record<number, number> = {
+  [EventCode.ShowText]: EventCode.TextData,
+  [EventCode.ShowScrollingText]: EventCode.ScrollingTextData,
+  [EventCode.Comment]: EventCode.CommentData,
+  [EventCode.SetMovementRoute]: EventCode.MoveRouteData,
+  [EventCode.ShopProcessing]: EventCode.ShopItem,
+  [EventCode.Script]: EventCode.ScriptData,
+  [EventCode.PluginCommandMZ]: EventCode.PluginCommandData
+};
+
+/** The branches of a block command, at the same indent as the command. The last one ends the block. */
+const BRANCH_CODES: Record<number, Array<number>> = {
+  [EventCode.ShowChoices]: [EventCode.When, EventCode.WhenCancel, EventCode.ChoicesEnd],
+  [EventCode.ConditionalBranch]: [EventCode.Else, EventCode.BranchEnd],
+  [EventCode.Loop]: [EventCode.RepeatAbove],
+  [EventCode.BattleProcessing]: [EventCode.IfWin, EventCode.IfEscape, EventCode.IfLose, EventCode.BattleEnd]
+};
+
+/**
+ * Whether the command is a part of the command above it, e.g. a line of text or the end of a block.
+ * Such commands are not inserted or deleted on their own.
+ */
+export function isContinuationCommand(command: EventCommand) {
+  return (
+    Object.values(CONTINUATION_CODES).includes(command.code) ||
+    Object.values(BRANCH_CODES).some((codes) => codes.includes(command.code))
+  );
+}
+
+/**
+ * Returns the index after the last command belonging to the command at `index`,
+ * i.e. its continuation lines, and for blocks, their branches and the commands inside.
+ */
+export function getCommandGroupEnd(list: Array<EventCommand>, index: number) {
+  const { code, indent } = list[index];
+  let end = index + 1;
+  const continuation = CONTINUATION_CODES[code];
+  while (continuation !== undefined && list[end]?.code === continuation && list[end].indent === indent) {
+    end++;
+  }
+  const branches = BRANCH_CODES[code];
+  while (branches && end < list.length) {
+    const command = list[end];
+    if (command.indent > indent) {
+      end++;
+    } else if (command.indent === indent && branches.includes(command.code)) {
+      end++;
+      if (command.code === branches[branches.length - 1]) {
+        break;
+      }
+    } else {
+      break;
+    }
+  }
+  return end;
+}
+
+const formatId = (id: unknown, digits = 4) => `#${`${id}`.padStart(digits, '0')}`;
+
+const formatRange = (startId: number, endId: number) =>
+  startId === endId ? formatId(startId) : `${formatId(startId)}..${formatId(endId)}`;
+
+const formatOnOff = (value: number) => (value === 0 ? 'ON' : 'OFF');
+
+const formatAudio = (audio: AudioFile | undefined) =>
+  audio?.name ? `${audio.name} (${audio.volume}, ${audio.pitch}, ${audio.pan})` : 'None';
+
+const formatCharacter = (characterId: number) =>
+  characterId < 0 ? 'Player' : characterId === 0 ? 'This Event' : formatId(characterId, 3);
+
+const formatMoveCommand = (command: MoveCommand) => MOVE_COMMAND_NAMES[command.code] ?? `${command.code}`;
+
+const VARIABLE_OPERATIONS = ['=', '+=', '-=', '*=', '/=', '%='];
+
+function formatVariableOperand(operandType: number, operand: Array<unknown>) {
+  switch (operandType) {
+    case 0:
+      return `${operand[0]}`;
+    case 1:
+      return `Variable ${formatId(operand[0])}`;
+    case 2:
+      return `Random ${operand[0]}..${operand[1]}`;
+    case 4:
+      return `${operand[0]}`;
+    default:
+      return 'Game Data';
+  }
+}
+
+function formatCondition(parameters: Array<unknown>) {
+  switch (parameters[0]) {
+    case 0:
+      return `Switch ${formatId(parameters[1])} is ${formatOnOff(parameters[2] as number)}`;
+    case 1: {
+      const operators = ['=', '≥', '≤', '>', '<', '≠'];
+      const value = parameters[2] === 0 ? `${parameters[3]}` : `Variable ${formatId(parameters[3])}`;
+      return `Variable ${formatId(parameters[1])} ${operators[parameters[4] as number] ?? '?'} ${value}`;
+    }
+    case 2:
+      return `Self Switch ${parameters[1]} is ${formatOnOff(parameters[2] as number)}`;
+    case 3:
+      return `Timer ${parameters[2] === 0 ? '≥' : '≤'} ${parameters[1]} sec`;
+    case 7:
+      return `Gold ${['≥', '≤', '<'][parameters[2] as number] ?? '?'} ${parameters[1]}`;
+    case 12:
+      return `Script: ${parameters[1]}`;
+    default:
+      return '...';
+  }
+}
+
+/**
+ * Returns the text shown for a command in the contents list of RPG Maker's event editor,
+ * without the indent, e.g. `◆Control Switches: #0001 = ON`.
+ */
+export function describeCommand(command: EventCommand): string {
+  const known = command as KnownEventCommand;
+  const name = COMMAND_NAMES[command.code];
+  switch (known.code) {
+    case EventCode.ShowText: {
+      const [faceName, faceIndex, background, positionType] = known.parameters;
+      const face = faceName ? `${faceName}(${faceIndex})` : 'None';
+      const backgrounds = ['Window', 'Dim', 'Transparent'];
+      const positions = ['Top', 'Middle', 'Bottom'];
+      return `◆${name}: ${face}, ${backgrounds[background] ?? background}, ${positions[positionType] ?? positionType}`;
+    }
+    case EventCode.TextData:
+    case EventCode.CommentData:
+    case EventCode.ScriptData:
+      return `\u3000: ${known.parameters[0]}`;
+    case EventCode.ShowChoices:
+      return `◆${name}: ${known.parameters[0].join(', ')}`;
+    case EventCode.When:
+      return `: When ${known.parameters[1]}`;
+    case EventCode.Comment:
+    case EventCode.Script:
+    case EventCode.Label:
+    case EventCode.JumpToLabel:
+    case EventCode.PluginCommandMV:
+      return `◆${name}: ${known.parameters[0]}`;
+    case EventCode.ConditionalBranch:
+      return `◆${name}: ${formatCondition(known.parameters)}`;
+    case EventCode.CommonEvent:
+      return `◆${name}: ${formatId(known.parameters[0])}`;
+    case EventCode.ControlSwitches: {
+      const [startId, endId, value] = known.parameters;
+      return `◆${name}: ${formatRange(startId, endId)} = ${formatOnOff(value)}`;
+    }
+    case EventCode.ControlVariables: {
+      const [startId, endId, operationType, operandType, ...operand] = known.parameters;
+      const operation = VARIABLE_OPERATIONS[operationType] ?? '?';
+      return `◆${name}: ${formatRange(startId, endId)} ${operation} ${formatVariableOperand(operandType, operand)}`;
+    }
+    case EventCode.ControlSelfSwitch:
+      return `◆${name}: ${known.parameters[0]} = ${formatOnOff(known.parameters[1])}`;
+    case EventCode.ControlTimer: {
+      const seconds = known.parameters[1] ?? 0;
+      return known.parameters[0] === 0
+        ? `◆${name}: Start, ${Math.floor(seconds / 60)} min ${seconds % 60} sec`
+        : `◆${name}: Stop`;
+    }
+    case EventCode.ChangeGold: {
+      const [operation, operandType, operand] = known.parameters;
+      const value = operandType === 0 ? `${operand}` : `Variable ${formatId(operand)}`;
+      return `◆${name}: ${operation === 0 ? '+' : '-'} ${value}`;
+    }
+    case EventCode.TransferPlayer: {
+      const [designation, mapId, x, y] = known.parameters;
+      return designation === 0
+        ? `◆${name}: Map ${formatId(mapId, 3)} (${x},${y})`
+        : `◆${name}: {${formatId(mapId)}} ({${formatId(x)}},{${formatId(y)}})`;
+    }
+    case EventCode.SetMovementRoute:
+      return `◆${name}: ${formatCharacter(known.parameters[0])}`;
+    case EventCode.MoveRouteData:
+      return `\u3000: ◇${formatMoveCommand(known.parameters[0])}`;
+    case EventCode.Wait:
+      return `◆${name}: ${known.parameters[0]} frames`;
+    case EventCode.PlayBgm:
+    case EventCode.PlayBgs:
+    case EventCode.PlayMe:
+    case EventCode.PlaySe:
+      return `◆${name}: ${formatAudio(known.parameters[0])}`;
+    case EventCode.PluginCommandMZ:
+      return `◆${name}: ${known.parameters[0]}, ${known.parameters[1]}`;
+  }
+
+  switch (command.code) {
+    case EventCode.End:
+      return '◆';
+    case EventCode.WhenCancel:
+      return ': When Cancel';
+    case EventCode.Else:
+      return ': Else';
+    case EventCode.ChoicesEnd:
+    case EventCode.BranchEnd:
+    case EventCode.BattleEnd:
+      return ': End';
+    case EventCode.RepeatAbove:
+      return ': Repeat Above';
+    case EventCode.IfWin:
+      return ': If Win';
+    case EventCode.IfEscape:
+      return ': If Escape';
+    case EventCode.IfLose:
+      return ': If Lose';
+    case EventCode.ScrollingTextData:
+    case EventCode.PluginCommandData:
+      return `\u3000: ${command.parameters[0]}`;
+    case EventCode.ShopItem:
+      return '\u3000: Goods';
+  }
+  return name ? `◆${name}` : `◆Unknown Command (${command.code})`;
+}
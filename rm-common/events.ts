@@ -0,0 +1,150 @@
+/**
+ * A command of an event page or a move route.
+ */
+export type EventCommand = {
+  code: number;
+  indent: number;
+  parameters: Array<unknown>;
+};
+
+export type MoveCommand = {
+  code: number;
+  parameters: Array<unknown>;
+};
+
+export type MoveRoute = {
+  list: Array<MoveCommand>;
+  repeat: boolean;
+  skippable: boolean;
+  wait: boolean;
+};
+
+export type EventConditions = {
+  actorId: number;
+  actorValid: boolean;
+  itemId: number;
+  itemValid: boolean;
+  selfSwitchCh: string;
+  selfSwitchValid: boolean;
+  switch1Id: number;
+  switch1Valid: boolean;
+  switch2Id: number;
+  switch2Valid: boolean;
+  variableId: number;
+  variableValid: boolean;
+  variableValue: number;
+};
+
+/**
+ * The graphic of an event page.
+ * Either a character from `img/characters`, or a tile if `tileId` is positive.
+ */
+export type EventImage = {
+  tileId: number;
+  characterName: string;
+  direction: number;
+  pattern: number;
+  characterIndex: number;
+};
+
+export type EventPage = {
+  conditions: EventConditions;
+  directionFix: boolean;
+  image: EventImage;
+  list: Array<EventCommand>;
+  moveFrequency: number;
+  moveRoute: MoveRoute;
+  moveSpeed: number;
+  moveType: number;
+  priorityType: number;
+  stepAnime: boolean;
+  through: boolean;
+  trigger: number;
+  walkAnime: boolean;
+};
+
+/**
+ * An event in the `events` array of a map. The index in the array is the same as `id`.
+ */
+export type MapEvent = {
+  id: number;
+  name: string;
+  note: string;
+  pages: Array<EventPage>;
+  x: number;
+  y: number;
+};
+
+/**
+ * Whether the character image contains a single character, i.e. its name starts with `$` (or `!$`).
+ */
+export const isBigCharacter = (characterName: string) => !!characterName.match(/^[!$]+/)?.[0].includes('$');
+
+/**
+ * Whether the character image is an object, i.e. its name starts with `!`.
+ * Objects are not shifted up by 6 pixels as other characters.
+ */
+export const isObjectCharacter = (characterName: string) => !!characterName.match(/^[!$]+/)?.[0].includes('!');
+
+/**
+ * Creates a page with the default settings of the RPG Maker editor.
+ * Keys are in alphabetical order, as RPG Maker writes them.
+ */
+export function createEventPage(): EventPage {
+  return {
+    conditions: {
+      actorId: 1,
+      actorValid: false,
+      itemId: 1,
+      itemValid: false,
+      selfSwitchCh: 'A',
+      selfSwitchValid: false,
+      switch1Id: 1,
+      switch1Valid: false,
+      switch2Id: 1,
+      switch2Valid: false,
+      variableId: 1,
+      variableValid: false,
+      variableValue: 0
+    },
+    directionFix: false,
+    image: { characterIndex: 0, characterName: '', direction: 2, pattern: 0, tileId: 0 },
+    list: [{ code: 0, indent: 0, parameters: [] }],
+    moveFrequency: 3,
+    moveRoute: { list: [{ code: 0, parameters: [] }], repeat: true, skippable: false, wait: false },
+    moveSpeed: 3,
+    moveType: 0,
+    priorityType: 0,
+    stepAnime: false,
+    through: false,
+    trigger: 0,
+    walkAnime: true
+  };
+}
+
+/**
+ * Creates a new event with a single default page, named as the RPG Maker editor does.
+ */
+export function createEvent(id: number, x: number, y: number): MapEvent {
+  return { id, name: `EV${`${id}`.padStart(3, '0')}`, note: '', pages: [createEventPage()], x, y };
+}
+
+/**
+ * Returns the ID for a new event: the first `null` hole of the events array, or the end of it.
+ * ID 0 is never used.
+ */
+export function allocateEventId(events: Array<MapEvent | null>) {
+  for (let id = 1; id < events.length; id++) {
+    if (!events[id]) {
+      return id;
+    }
+  }
+  return Math.max(events.length, 1);
+}
+
+/**
+ * Returns the event at (x, y), if any.
+ */
+export function findEventAt(events: Array<MapEvent | null> | undefined, x: number, y: number) {
+  return events?.find((event) => event && event.x === x && event.y === y) ?? undefined;
+}
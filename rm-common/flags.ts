@@ -0,0 +1,137 @@
+import type { MapLayers } from './autotile';
+import { Tilemap } from './rmmv';
+
+/**
+ * The bits of the `flags` of a tileset in Tilesets.json, indexed by tile ID.
+ * The four lowest bits block the passage in each direction. The terrain tag is stored from bit 12.
+ */
+export const TileFlag = {
+  BlockDown: 0x1,
+  BlockLeft: 0x2,
+  BlockRight: 0x4,
+  BlockUp: 0x8,
+  /** Drawn above characters, and passable */
+  Star: 0x10,
+  Ladder: 0x20,
+  Bush: 0x40,
+  Counter: 0x80,
+  Damage: 0x100,
+  BoatImpassable: 0x200,
+  ShipImpassable: 0x400,
+  AirshipCannotLand: 0x800
+} as const;
+
+export const getTerrainTag = (flags: number) => flags >> 12;
+
+/**
+ * Returns the name of the tab of the tileset the tile belongs to, e.g. `A1` or `B`.
+ */
+export function getTileSheetName(tileId: number) {
+  if (Tilemap.isTileA1(tileId)) return 'A1';
+  if (Tilemap.isTileA2(tileId)) return 'A2';
+  if (Tilemap.isTileA3(tileId)) return 'A3';
+  if (Tilemap.isTileA4(tileId)) return 'A4';
+  if (Tilemap.isTileA5(tileId)) return 'A5';
+  return 'BCDE'[Math.floor(tileId / 256)] ?? '';
+}
+
+/**
+ * Returns the settings of a tile as shown in the Tilesets tab of RPG Maker's database, one per line.
+ */
+export function describeTileFlags(flags: number) {
+  const lines: Array<string> = [];
+  const blocked = flags & 0xf;
+  if (flags & TileFlag.Star) {
+    lines.push('Passage: ☆');
+  } else if (blocked === 0) {
+    lines.push('Passage: O');
+  } else if (blocked === 0xf) {
+    lines.push('Passage: X');
+  } else {
+    const directions = [
+      [TileFlag.BlockDown, '↓'],
+      [TileFlag.BlockLeft, '←'],
+      [TileFlag.BlockRight, '→'],
+      [TileFlag.BlockUp, '↑']
+    ] as const;
+    const open = directions.filter(([bit]) => !(flags & bit)).map(([, arrow]) => arrow);
+    lines.push(`Passage (4 dir): ${open.join('')}`);
+  }
+  if (flags & TileFlag.Ladder) lines.push('Ladder');
+  if (flags & TileFlag.Bush) lines.push('Bush');
+  if (flags & TileFlag.Counter) lines.push('Counter');
+  if (flags & TileFlag.Damage) lines.push('Damage Floor');
+  if (getTerrainTag(flags) > 0) lines.push(`Terrain Tag: ${getTerrainTag(flags)}`);
+  return lines;
+}
+
+/**
+ * The tiles of layers 1 to 4 at (x, y), from the top, as `Game_Map.layeredTiles` returns them.
+ */
+export function getLayeredTiles(map: MapLayers, x: number, y: number) {
+  const tiles: Array<number> = [];
+  for (let z = 3; z >= 0; z--) {
+    tiles.push(map.data[(z * map.height + y) * map.width + x] ?? 0);
+  }
+  return tiles;
+}
+
+/**
+ * Whether the cell can be passed in the direction of `bit`, following `Game_Map.checkPassage`:
+ * star tiles are skipped, and the topmost other tile decides.
+ */
+export function checkPassage(map: MapLayers, flags: ArrayLike<number>, x: number, y: number, bit: number) {
+  for (const tileId of getLayeredTiles(map, x, y)) {
+    const flag = flags[tileId] ?? 0;
+    if ((flag & TileFlag.Star) !== 0) {
+      continue;
+    }
+    if ((flag & bit) === 0) {
+      return true;
+    }
+    if ((flag & bit) === bit) {
+      return false;
+    }
+  }
+  return false;
+}
+
+/**
+ * The settings of a cell of the map, combining its layers as the game does.
+ */
+export type CellFlags = {
+  /** Whether the cell can be passed downward, leftward, rightward and upward */
+  down: boolean;
+  left: boolean;
+  right: boolean;
+  up: boolean;
+  star: boolean;
+  ladder: boolean;
+  bush: boolean;
+  counter: boolean;
+  damage: boolean;
+  terrainTag: number;
+};
+
+/**
+ * Returns the settings of the cell at (x, y), as `Game_Map.checkPassage`, `Game_Map.checkLayeredTilesFlags`
+ * and `Game_Map.terrainTag` compute them.
+ */
+export function getCellFlags(map: MapLayers, flags: ArrayLike<number>, x: number, y: number): CellFlags {
+  const tiles = getLayeredTiles(map, x, y);
+  // Empty layers are tile 0, which is a star tile of tab B
+  const hasFlag = (bit: number) => tiles.some((tileId) => tileId > 0 && ((flags[tileId] ?? 0) & bit) !== 0);
+  const taggedTile = tiles.find((tileId) => getTerrainTag(flags[tileId] ?? 0) > 0);
+  return {
+    down: checkPassage(map, flags, x, y, TileFlag.BlockDown),
+    left: checkPassage(map, flags, x, y, TileFlag.BlockLeft),
+    right: checkPassage(map, flags, x, y, TileFlag.BlockRight),
+    up: checkPassage(map, flags, x, y, TileFlag.BlockUp),
+    star: hasFlag(TileFlag.Star),
+    ladder: hasFlag(TileFlag.Ladder),
+    bush: hasFlag(TileFlag.Bush),
+    counter: hasFlag(TileFlag.Counter),
+    damage: hasFlag(TileFlag.Damage),
+    terrainTag: taggedTile !== undefined ? getTerrainTag(flags[taggedTile] ?? 0) : 0
+  };
+}
@@ -1,2 +1,13 @@
 export * from './rmmv';
+export * from './autotile';
+export * from './layers';
+export * from './brush';
+export * from './flags';
+export * from './palette';
+export * from './clipboard';
+export * from './reachability';
+export * from './resize';
+export * from './events';
+export * from './commands';
+export * from './protocol';
 export { CompositeTilemap, Tilemap as PixiTilemap } from './pixi-tilemap';
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import type { MapLayers } from './autotile';
+import { LAYER_COUNT, TilesetMode, getPlacementLayer, placeTile, placeTileOnLayer } from './layers';
+import { Tilemap } from './rmmv';
+
+const FLOOR = Tilemap.makeAutotileId(16, 0);
+const DECORATION = Tilemap.makeAutotileId(2, 0);
+
+const createMap = (width: number, height: number): MapLayers => ({
+  width,
+  height,
+  data: new Array<number>(width * height * LAYER_COUNT).fill(0)
+});
+
+/** Returns the tiles of layers 1 to 4 at (x, y). */
+const layersAt = (map: MapLayers, x: number, y: number) =>
+  [0, 1, 2, 3].map((z) => map.data[(z * map.height + y) * map.width + x]);
+
+describe('placeTile', () => {
+  it('puts tiles of tab A on layer 1 and clears the layers above', () => {
+    const map = createMap(1, 1);
+    placeTile(map, 0, 0, DECORATION, TilesetMode.World);
+    placeTile(map, 0, 0, 1, TilesetMode.World);
+
+    expect(placeTile(map, 0, 0, 1536, TilesetMode.World)).toEqual([
+      { x: 0, y: 0, z: 0, tileId: 1536 },
+      { x: 0, y: 0, z: 1, tileId: 0 },
+      { x: 0, y: 0, z: 2, tileId: 0 }
+    ]);
+    expect(layersAt(map, 0, 0)).toEqual([1536, 0, 0, 0]);
+  });
+
+  it('puts decorations on layer 2 over the ground', () => {
+    const map = createMap(1, 1);
+    placeTile(map, 0, 0, FLOOR, TilesetMode.World);
+    placeTile(map, 0, 0, DECORATION, TilesetMode.World);
+    expect(layersAt(map, 0, 0)).toEqual([FLOOR, DECORATION, 0, 0]);
+  });
+
+  it('stacks tiles of tabs B to E on layers 3 and 4', () => {
+    const map = createMap(1, 1);
+    placeTile(map, 0, 0, 1, TilesetMode.Area);
+    placeTile(map, 0, 0, 2, TilesetMode.Area);
+    expect(layersAt(map, 0, 0)).toEqual([0, 0, 1, 2]);
+
+    placeTile(map, 0, 0, 3, TilesetMode.Area);
+    expect(layersAt(map, 0, 0)).toEqual([0, 0, 2, 3]);
+
+    expect(placeTile(map, 0, 0, 3, TilesetMode.Area)).toEqual([]);
+    placeTile(map, 0, 0, Tilemap.TILE_ID_B, TilesetMode.Area);
+    expect(layersAt(map, 0, 0)).toEqual([0, 0, 0, 0]);
+  });
+
+  it('updates the shapes of the autotiles around the placed tile', () => {
+    const map = createMap(3, 3);
+    placeTile(map, 0, 1, FLOOR, TilesetMode.Area);
+    placeTile(map, 2, 1, FLOOR, TilesetMode.Area);
+
+    const changes = placeTile(map, 1, 1, FLOOR, TilesetMode.Area);
+    expect(changes).toContainEqual({ x: 1, y: 1, z: 0, tileId: Tilemap.makeAutotileId(16, 33) });
+    expect(changes).toContainEqual({ x: 0, y: 1, z: 0, tileId: Tilemap.makeAutotileId(16, 33) });
+    expect(layersAt(map, 2, 1)[0]).toBe(Tilemap.makeAutotileId(16, 33));
+  });
+
+  it('ignores cells outside the map', () => {
+    const map = createMap(1, 1);
+    expect(placeTile(map, 1, 0, FLOOR, TilesetMode.Area)).toEqual([]);
+    expect(map.data.every((tileId) => tileId === 0)).toBe(true);
+  });
+});
+
+describe('placeTileOnLayer', () => {
+  it('puts the tile on the given layer only, and updates the autotiles of that layer', () => {
+    const map = createMap(2, 1);
+    placeTile(map, 0, 0, FLOOR, TilesetMode.Area);
+    placeTileOnLayer(map, 0, 0, 3, 1);
+    expect(layersAt(map, 0, 0)).toEqual([Tilemap.makeAutotileId(16, 24), 0, 0, 1]);
+
+    expect(placeTileOnLayer(map, 1, 0, 0, FLOOR)).toContainEqual({ x: 0, y: 0, z: 0, tileId: FLOOR });
+    expect(layersAt(map, 0, 0)).toEqual([FLOOR, 0, 0, 1]);
+  });
+});
+
+describe('getPlacementLayer', () => {
+  it('places decorations on layer 2, depending on the tileset mode for tab A2', () => {
+    expect(getPlacementLayer(FLOOR, TilesetMode.World)).toBe(0);
+    expect(getPlacementLayer(DECORATION, TilesetMode.Area)).toBe(1);
+    expect(getPlacementLayer(Tilemap.makeAutotileId(20, 0), TilesetMode.World)).toBe(1);
+    expect(getPlacementLayer(Tilemap.makeAutotileId(20, 0), TilesetMode.Area)).toBe(0);
+    expect(getPlacementLayer(1536, TilesetMode.World)).toBe(0);
+    expect(getPlacementLayer(1, TilesetMode.World)).toBe(2);
+  });
+});
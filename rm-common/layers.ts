@@ -0,0 +1,131 @@
+import { isInside, refreshAutotiles, type MapLayers } from './autotile';
+import type { MapCellChange } from './protocol';
+import { Tilemap } from './rmmv';
+
+/** The number of layers in `MapData.data`: 4 tile layers, shadows and regions */
+export const LAYER_COUNT = 6;
+
+/**
+ * The `mode` of a tileset in Tilesets.json.
+ */
+export const TilesetMode = {
+  World: 0,
+  Area: 1,
+  VXCompatible: 2
+} as const;
+
+/**
+ * Whether the tile is a decoration put over the ground on layer 2, instead of replacing the ground.
+ * These are the two right blocks of A1, and the right half of A2 for world type tilesets.
+ */
+export function isDecorationTile(tileId: number, tilesetMode: number) {
+  if (Tilemap.isTileA1(tileId)) {
+    const kind = Tilemap.getAutotileKind(tileId);
+    return kind === 2 || kind === 3;
+  }
+  if (Tilemap.isTileA2(tileId) && tilesetMode === TilesetMode.World) {
+    return Tilemap.getAutotileKind(tileId) % 8 >= 4;
+  }
+  return false;
+}
+
+/**
+ * Returns the layer a tile is placed on in automatic layer mode.
+ * Tiles of tabs B to E are reported on layer 3, the lower of the two layers they stack on.
+ */
+export function getPlacementLayer(tileId: number, tilesetMode: number) {
+  if (Tilemap.isAutotile(tileId) || Tilemap.isTileA5(tileId)) {
+    return isDecorationTile(tileId, tilesetMode) ? 1 : 0;
+  }
+  return 2;
+}
+
+/**
+ * Collects the changes made to the layers of a single cell.
+ */
+class LayerEditor {
+  public readonly changes: Array<MapCellChange> = [];
+  private readonly touchedLayers = new Set<number>();
+  private readonly map: MapLayers;
+  private readonly x: number;
+  private readonly y: number;
+
+  constructor(map: MapLayers, x: number, y: number) {
+    this.map = map;
+    this.x = x;
+    this.y = y;
+  }
+
+  public get(z: number) {
+    return this.map.data[(z * this.map.height + this.y) * this.map.width + this.x] ?? 0;
+  }
+
+  public set(z: number, tileId: number) {
+    const current = this.get(z);
+    if (Tilemap.isAutotile(tileId) ? Tilemap.isSameKindTile(current, tileId) : current === tileId) {
+      return;
+    }
+    this.map.data[(z * this.map.height + this.y) * this.map.width + this.x] = tileId;
+    this.changes.push({ x: this.x, y: this.y, z, tileId });
+    this.touchedLayers.add(z);
+  }
+
+  public finish() {
+    for (const z of this.touchedLayers) {
+      this.changes.push(...refreshAutotiles(this.map, [{ x: this.x, y: this.y }], z));
+    }
+    return this.changes;
+  }
+}
+
+/**
+ * Places a tile at (x, y) following the automatic layer rules of the RPG Maker editor:
+ * - Tiles of tab A go to layer 1 and clear layers 2 to 4, except decorations which go to layer 2.
+ * - Tiles of tabs B to E are stacked on layers 3 and 4. When both are used, the lower one is dropped.
+ * - The first tile of tab B erases layers 3 and 4.
+ *
+ * The map data is updated in place including autotile shapes, and the changed cells are returned.
+ */
+export function placeTile(map: MapLayers, x: number, y: number, tileId: number, tilesetMode: number) {
+  if (!isInside(map, x, y)) {
+    return [];
+  }
+  const editor = new LayerEditor(map, x, y);
+
+  if (Tilemap.isAutotile(tileId) || Tilemap.isTileA5(tileId)) {
+    if (isDecorationTile(tileId, tilesetMode)) {
+      editor.set(1, tileId);
+    } else {
+      editor.set(0, tileId);
+      editor.set(1, 0);
+    }
+    editor.set(2, 0);
+    editor.set(3, 0);
+  } else if (tileId === Tilemap.TILE_ID_B) {
+    editor.set(2, 0);
+    editor.set(3, 0);
+  } else if (editor.get(2) === 0) {
+    editor.set(2, tileId);
+  } else if (editor.get(2) !== tileId && editor.get(3) !== tileId) {
+    if (editor.get(3) !== 0) {
+      editor.set(2, editor.get(3));
+    }
+    editor.set(3, tileId);
+  }
+
+  return editor.finish();
+}
+
+/**
+ * Places a tile at (x, y) on layer z, leaving the other layers untouched.
+ *
+ * The map data is updated in place including autotile shapes, and the changed cells are returned.
+ */
+export function placeTileOnLayer(map: MapLayers, x: number, y: number, z: number, tileId: number) {
+  if (!isInside(map, x, y)) {
+    return [];
+  }
+  const editor = new LayerEditor(map, x, y);
+  editor.set(z, tileId);
+  return editor.finish();
+}
@@ -0,0 +1,61 @@
+import { Tilemap } from './rmmv';
+
+export type PaletteTab = 'A' | 'B' | 'C' | 'D' | 'E';
+
+/** The number of tiles in a row of a palette tab */
+export const PALETTE_WIDTH = 8;
+
+/**
+ * Returns the shape an autotile is shown with in the palette, as in RPG Maker: the tile standing alone.
+ */
+export function getPaletteShape(tileId: number) {
+  if (Tilemap.isWaterfallTypeAutotile(tileId)) return 3;
+  if (Tilemap.isWallTypeAutotile(tileId)) return 15;
+  return 46;
+}
+
+/**
+ * Lays out the tiles of each tab as RPG Maker does, row by row. Tileset images which are not set are skipped,
+ * and so are the tabs without any image.
+ */
+export function getPalettePages(tilesetNames: Array<string>) {
+  const pages = new Map<PaletteTab, Array<number>>();
+  const tabA: Array<number> = [];
+  const autotileSheets = [
+    [Tilemap.TILE_ID_A1, Tilemap.TILE_ID_A2],
+    [Tilemap.TILE_ID_A2, Tilemap.TILE_ID_A3],
+    [Tilemap.TILE_ID_A3, Tilemap.TILE_ID_A4],
+    [Tilemap.TILE_ID_A4, Tilemap.TILE_ID_MAX]
+  ];
+  autotileSheets.forEach(([start, end], setNumber) => {
+    if (!tilesetNames[setNumber]) return;
+    for (let tileId = start; tileId < end; tileId += 48) {
+      tabA.push(tileId + getPaletteShape(tileId));
+    }
+  });
+  if (tilesetNames[4]) {
+    for (let i = 0; i < 128; i++) {
+      tabA.push(Tilemap.TILE_ID_A5 + i);
+    }
+  }
+  if (tabA.length > 0) {
+    pages.set('A', tabA);
+  }
+
+  (['B', 'C', 'D', 'E'] as const).forEach((tab, i) => {
+    if (tilesetNames[5 + i]) {
+      pages.set(
+        tab,
+        Array.from({ length: 256 }, (_, tileId) => i * 256 + tileId)
+      );
+    }
+  });
+  return pages;
+}
+
+/**
+ * Returns the map data showing the tiles of a tab on layer 1. The other five layers are empty.
+ */
+export function getPageData(tileIds: Array<number>) {
+  return tileIds.concat(Array.from({ length: tileIds.length * 5 }, () => 0));
+}
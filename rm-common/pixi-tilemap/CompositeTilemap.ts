@@ -1,4 +1,4 @@
-import { BufferImageSource, Container, type PointData, Texture } from 'pixi.js';
+import { Container, type PointData, Texture } from 'pixi.js';
 import { Tilemap } from './Tilemap';
 
 /**
@@ -62,19 +62,6 @@ export class CompositeTilemap extends Container {
   /** The hard limit on the number of tile textures used in each tilemap. */
   public static readonly texturesPerTilemap: number = 1;
 
-  // For shadow
-  private static shadowTexture = new Texture({
-    source: new BufferImageSource({
-      resource: new Uint8Array([0, 0, 0, 127]),
-      width: 1,
-      height: 1,
-      alphaMode: 'premultiply-alpha-on-upload'
-    }),
-    label: 'SHADOW'
-  });
-
-  private shadowId = -1;
-
   /**
    * The tile animation frame.
    *
@@ -189,20 +176,7 @@ export class CompositeTilemap extends Container {
     let tilemap: Tilemap | undefined;
     const children = this.children;
 
-    if (tileTexture === -1) {
-      // Shadow
-      if (this.shadowId === -1) {
-        // Create a new tilemap initialized with the shadow texture.
-        tilemap = new Tilemap(CompositeTilemap.shadowTexture);
-
-        this.addChild(tilemap);
-        this.shadowId = this.children.length - 1;
-      } else {
-        tilemap = children[this.shadowId] as Tilemap;
-      }
-
-      tilemap.tile(undefined, x, y, options);
-    } else if (typeof tileTexture === 'number') {
+    if (typeof tileTexture === 'number') {
       const childIndex = tileTexture;
 
       tilemap = children[childIndex] as Tilemap;
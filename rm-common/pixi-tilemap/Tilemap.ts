@@ -172,6 +172,15 @@ export class Tilemap extends ViewContainer implements View, Instruction {
     return this;
   }
 
+  /**
+   * Adds a rectangle filled with the color of the tilemap.
+   * This requires the base texture to be a single texel, such as `Texture.WHITE`,
+   * and the color is given by the tint and alpha of the tilemap.
+   */
+  rect(x: number, y: number, width: number, height: number): this {
+    return this.tile(undefined, x, y, { u: 0, v: 0, tileWidth: width, tileHeight: height });
+  }
+
   // passed local space..
   public containsPoint(point: PointData) {
     const bounds = this._bounds;
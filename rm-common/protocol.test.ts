@@ -0,0 +1,181 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createEvent } from './events';
+import {
+  RequestClient,
+  RequestTimeoutError,
+  getMapDelta,
+  isFromMapEditorMessage,
+  isFromMapTilesMessage,
+  isFromTilesetEditorMessage,
+  type MapContent,
+  type MapEditorRequest,
+  type MapEditorResults,
+  type RequestMessage
+} from './protocol';
+
+describe('isFromMapEditorMessage', () => {
+  it('accepts valid messages', () => {
+    expect(isFromMapEditorMessage({ type: 'ready' })).toBe(true);
+    expect(isFromMapEditorMessage({ type: 'setCursorPos', x: 1, y: 2 })).toBe(true);
+    expect(isFromMapEditorMessage({ type: 'editCells', changes: [{ x: 0, y: 0, z: 0, tileId: 2816 }] })).toBe(true);
+    expect(
+      isFromMapEditorMessage({ type: 'editCells', changes: [], events: [createEvent(1, 0, 0)], deletedEventIds: [2] })
+    ).toBe(true);
+    expect(
+      isFromMapEditorMessage({
+        type: 'editMap',
+        map: { tilesetId: 1, width: 1, height: 1, data: [0, 0, 0, 0, 0, 0], events: [null, createEvent(1, 0, 0)] }
+      })
+    ).toBe(true);
+    expect(isFromMapEditorMessage({ type: 'getTroops', requestId: 1 })).toBe(true);
+  });
+
+  it('rejects unknown types and missing or invalid fields', () => {
+    expect(isFromMapEditorMessage(undefined)).toBe(false);
+    expect(isFromMapEditorMessage('ready')).toBe(false);
+    expect(isFromMapEditorMessage({ type: 'unknown' })).toBe(false);
+    expect(isFromMapEditorMessage({ type: 'toString' })).toBe(false);
+    expect(isFromMapEditorMessage({ type: 'setCursorPos', x: 1 })).toBe(false);
+    expect(isFromMapEditorMessage({ type: 'setCursorPos', x: 1, y: NaN })).toBe(false);
+    expect(isFromMapEditorMessage({ type: 'editCells', changes: [{ x: 0, y: 0, z: 0 }] })).toBe(false);
+    expect(isFromMapEditorMessage({ type: 'editCells', changes: [], deletedEventIds: ['2'] })).toBe(false);
+    expect(isFromMapEditorMessage({ type: 'setEvent', event: { name: 'EV001' } })).toBe(false);
+    expect(isFromMapEditorMessage({ type: 'getTroops' })).toBe(false);
+  });
+
+  it('rejects negative or fractional IDs, positions and tile IDs', () => {
+    const editCells = (change: Record<string, number>) =>
+      isFromMapEditorMessage({ type: 'editCells', changes: [{ x: 0, y: 0, z: 0, tileId: 0, ...change }] });
+    expect(editCells({ x: -1 })).toBe(false);
+    expect(editCells({ y: 0.5 })).toBe(false);
+    expect(editCells({ z: -1 })).toBe(false);
+    expect(editCells({ tileId: 1.5 })).toBe(false);
+    expect(editCells({ tileId: Infinity })).toBe(false);
+    expect(isFromMapEditorMessage({ type: 'setEvent', event: { ...createEvent(1, 0, 0), id: -1 } })).toBe(false);
+    expect(isFromMapEditorMessage({ type: 'deleteEvent', id: 1.5 })).toBe(false);
+    expect(isFromMapEditorMessage({ type: 'editCells', changes: [], deletedEventIds: [-2] })).toBe(false);
+  });
+
+  it('accepts cursor positions outside the map', () => {
+    expect(isFromMapEditorMessage({ type: 'setCursorPos', x: -1, y: -1 })).toBe(true);
+  });
+});
+
+describe('isFromTilesetEditorMessage', () => {
+  it('accepts valid messages', () => {
+    expect(isFromTilesetEditorMessage({ type: 'ready' })).toBe(true);
+    expect(isFromTilesetEditorMessage({ type: 'editFlags', tilesetId: 1, changes: [{ tileId: 1, flags: 15 }] })).toBe(
+      true
+    );
+  });
+
+  it('rejects invalid messages', () => {
+    expect(isFromTilesetEditorMessage({ type: 'update', text: '' })).toBe(false);
+    expect(isFromTilesetEditorMessage({ type: 'editFlags', changes: [] })).toBe(false);
+    expect(isFromTilesetEditorMessage({ type: 'editFlags', tilesetId: 1, changes: [{ tileId: 1 }] })).toBe(false);
+  });
+});
+
+describe('isFromMapTilesMessage', () => {
+  it('accepts valid messages', () => {
+    expect(isFromMapTilesMessage({ type: 'selectTiles', width: 2, height: 1, tileIds: [1, 2] })).toBe(true);
+  });
+
+  it('rejects invalid messages', () => {
+    expect(isFromMapTilesMessage({ type: 'selectTiles', width: 2, height: 1 })).toBe(false);
+    expect(isFromMapTilesMessage({ type: 'selectTiles', width: 2, height: 1, tileIds: [1, null] })).toBe(false);
+    expect(isFromMapTilesMessage({ type: 'selectTiles', width: 2, height: 1, tileIds: [1, -2] })).toBe(false);
+  });
+});
+
+describe('RequestClient', () => {
+  let sent: Array<RequestMessage<MapEditorRequest>>;
+  let client: RequestClient<MapEditorRequest, MapEditorResults>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    sent = [];
+    client = new RequestClient((message) => sent.push(message), 1000);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('resolves each request with the response of the same ID', async () => {
+    const first = client.request({ type: 'getTroops' });
+    const second = client.request({ type: 'getTroops' });
+    expect(sent.map(({ requestId }) => requestId)).toEqual([1, 2]);
+
+    client.handleResponse({ type: 'response', requestId: 2, result: [null, { id: 1, name: 'Bat' }] });
+    client.handleResponse({ type: 'response', requestId: 1, result: [null] });
+    await expect(first).resolves.toEqual([null]);
+    await expect(second).resolves.toEqual([null, { id: 1, name: 'Bat' }]);
+  });
+
+  it('rejects with the error of the response', async () => {
+    const request = client.request({ type: 'getTroops' });
+    client.handleResponse({ type: 'response', requestId: 1, error: 'Troops.json not found' });
+    await expect(request).rejects.toThrow('Troops.json not found');
+  });
+
+  it('rejects when no response arrives in time and ignores late responses', async () => {
+    const request = client.request({ type: 'getTroops' });
+    vi.advanceTimersByTime(1000);
+    await expect(request).rejects.toBeInstanceOf(RequestTimeoutError);
+    expect(() => client.handleResponse({ type: 'response', requestId: 1, result: [] })).not.toThrow();
+  });
+
+  it('ignores responses to unknown requests', async () => {
+    const request = client.request({ type: 'getTroops' });
+    client.handleResponse({ type: 'response', requestId: 5, result: [] });
+    client.handleResponse({ type: 'response', requestId: 1, result: [null] });
+    await expect(request).resolves.toEqual([null]);
+  });
+
+  it('rejects the pending requests when disposed', async () => {
+    const request = client.request({ type: 'getTroops' });
+    client.dispose();
+    await expect(request).rejects.toThrow('cancelled');
+  });
+});
+
+describe('getMapDelta', () => {
+  const createMap = (): MapContent => ({
+    tilesetId: 1,
+    width: 3,
+    height: 2,
+    data: new Array(3 * 2 * 6).fill(0),
+    events: [null, createEvent(1, 0, 0), createEvent(2, 1, 1)]
+  });
+
+  it('returns the changed cells with their positions', () => {
+    const oldMap = createMap();
+    const newMap = createMap();
+    newMap.data[1] = 2816;
+    newMap.data[(1 * 2 + 1) * 3 + 2] = 1536;
+    expect(getMapDelta(oldMap, newMap)?.changes).toEqual([
+      { x: 1, y: 0, z: 0, tileId: 2816 },
+      { x: 2, y: 1, z: 1, tileId: 1536 }
+    ]);
+  });
+
+  it('returns the changed, added and deleted events', () => {
+    const oldMap = createMap();
+    const newMap = createMap();
+    newMap.events![1] = { ...createEvent(1, 0, 0), name: 'Door' };
+    newMap.events![2] = null;
+    newMap.events![3] = createEvent(3, 2, 1);
+    expect(getMapDelta(oldMap, newMap)).toEqual({
+      changes: [],
+      events: [newMap.events![1], newMap.events![3]],
+      deletedEventIds: [2]
+    });
+  });
+
+  it('returns no delta when anything else changes', () => {
+    expect(getMapDelta(createMap(), { ...createMap(), tilesetId: 2 })).toBeUndefined();
+    expect(getMapDelta(createMap(), { ...createMap(), width: 2, height: 3 })).toBeUndefined();
+    expect(getMapDelta(createMap(), { ...createMap(), data: new Array(4 * 2 * 6).fill(0) })).toBeUndefined();
+  });
+});
@@ -0,0 +1,431 @@
+import type { MapEvent } from './events';
+
+/**
+ * The messages between the extension and its webviews: the map editor, the Map Tiles view and the tileset editor.
+ *
+ * This module is also compiled into the extension, so it only depends on `events.ts` and does not use PIXI or the DOM.
+ * Each side checks the messages it receives with the `is...Message` functions before using them.
+ */
+
+//-----------------------------------------------------------------------------
+// Data sent in the messages
+
+/**
+ * A change of a single cell in the map data.
+ */
+export type MapCellChange = {
+  x: number;
+  y: number;
+  z: number;
+  tileId: number;
+};
+
+/**
+ * The tiles selected in the Map Tiles palette, row by row.
+ */
+export type Brush = {
+  width: number;
+  height: number;
+  tileIds: Array<number>;
+};
+
+/**
+ * A rectangle of a map copied by the selection tool, with all six layers.
+ * It is held by the extension, so that it can be pasted in another map using the same tileset.
+ */
+export type MapClip = {
+  tilesetId: number;
+  width: number;
+  height: number;
+  /** The six layers of the rectangle, in the same layout as `MapData.data` */
+  data: Array<number>;
+  /** The events inside the rectangle, with positions relative to its top-left corner */
+  events: Array<MapEvent>;
+};
+
+/**
+ * Tile and event changes of a map, applied as one undoable edit.
+ * The events replace the ones with the same ID.
+ */
+export type MapAreaEdit = {
+  changes: Array<MapCellChange>;
+  events: Array<MapEvent>;
+  deletedEventIds: Array<number>;
+};
+
+/**
+ * The content of a map file, as far as the messages need it. The rest of its properties are kept as they are.
+ */
+export type MapContent = {
+  tilesetId: number;
+  width: number;
+  height: number;
+  data: Array<number>;
+  events?: Array<MapEvent | null>;
+};
+
+/**
+ * A map whose transfers to the map of the editor are checked by the reachability check.
+ */
+export type OtherMap = {
+  name: string;
+  events: Array<MapEvent | null>;
+};
+
+/**
+ * A change of the flags of a tile in the tileset editor.
+ */
+export type TileFlagChange = {
+  tileId: number;
+  flags: number;
+};
+
+/**
+ * An entry of a database file such as `Troops.json`, with the properties shown in lists.
+ */
+export type DatabaseEntry = {
+  id: number;
+  name: string;
+};
+
+//-----------------------------------------------------------------------------
+// Requests and responses
+
+/**
+ * A request expecting a response with the same `requestId`.
+ */
+export type RequestMessage<Request extends { type: string }> = Request & { requestId: number };
+
+/**
+ * The answer to a request: its result, or the message of the error it failed with.
+ */
+export type ResponseMessage = { type: 'response'; requestId: number; result?: unknown; error?: string };
+
+/** How long a request waits for its response by default, in milliseconds */
+export const DEFAULT_REQUEST_TIMEOUT = 10000;
+
+/**
+ * The error a request is rejected with when no response arrives in time.
+ */
+export class RequestTimeoutError extends Error {
+  constructor(type: string, timeout: number) {
+    super(`No response to "${type}" in ${timeout} ms`);
+    this.name = 'RequestTimeoutError';
+  }
+}
+
+type PendingRequest = {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+};
+
+/**
+ * Sends requests and settles them with their responses. `Results` maps each request type to the type of its result.
+ */
+export class RequestClient<Request extends { type: string }, Results extends { [T in Request['type']]: unknown }> {
+  private readonly post: (message: RequestMessage<Request>) => void;
+  private readonly timeout: number;
+  private readonly pending = new Map<number, PendingRequest>();
+  private nextId = 1;
+
+  constructor(post: (message: RequestMessage<Request>) => void, timeout = DEFAULT_REQUEST_TIMEOUT) {
+    this.post = post;
+    this.timeout = timeout;
+  }
+
+  /**
+   * Sends the request. Resolves with its result, or rejects with the error of the other side
+   * or a `RequestTimeoutError`.
+   */
+  public request<T extends Request['type']>(request: Extract<Request, { type: T }>): Promise<Results[T]> {
+    const requestId = this.nextId++;
+    return new Promise<Results[T]>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(requestId);
+        reject(new RequestTimeoutError(request.type, this.timeout));
+      }, this.timeout);
+      this.pending.set(requestId, { resolve: resolve as (result: unknown) => void, reject, timer });
+      this.post({ ...request, requestId });
+    });
+  }
+
+  /**
+   * Settles the request answered by the response. Responses to unknown or expired requests are ignored.
+   */
+  public handleResponse(response: ResponseMessage) {
+    const pending = this.pending.get(response.requestId);
+    if (!pending) return;
+    this.pending.delete(response.requestId);
+    clearTimeout(pending.timer);
+    if (response.error !== undefined) {
+      pending.reject(new Error(response.error));
+    } else {
+      pending.resolve(response.result);
+    }
+  }
+
+  /**
+   * Rejects the requests still waiting, e.g. when the webview is closed.
+   */
+  public dispose() {
+    for (const [requestId, pending] of this.pending) {
+      clearTimeout(pending.timer);
+      pending.reject(new Error(`Request ${requestId} was cancelled`));
+    }
+    this.pending.clear();
+  }
+}
+
+/**
+ * Answers a request with the result of `handler`, or with the message of the error it throws.
+ */
+export async function answerRequest(
+  requestId: number,
+  handler: () => unknown,
+  post: (response: ResponseMessage) => void
+) {
+  try {
+    post({ type: 'response', requestId, result: await handler() });
+  } catch (e) {
+    post({ type: 'response', requestId, error: e instanceof Error ? e.message : `${e}` });
+  }
+}
+
+//-----------------------------------------------------------------------------
+// Messages
+
+/**
+ * Requests of the map editor, answered by the extension.
+ */
+export type MapEditorRequest = { type: 'getTroops' };
+
+/**
+ * The results of the requests of the map editor. Database entries are indexed by ID, with `null` for unused IDs.
+ */
+export type MapEditorResults = {
+  getTroops: Array<DatabaseEntry | null>;
+};
+
+/**
+ * Messages sent by the extension to the map editor.
+ * `update` replaces the whole map, and `updateCells` changes only some cells and events of it.
+ */
+export type ToMapEditorMessage =
+  | { type: 'update'; text: string }
+  | ({ type: 'updateCells' } & MapAreaEdit)
+  | { type: 'setBrush'; brush: Brush }
+  | { type: 'setClipboard'; clip: MapClip | undefined }
+  | { type: 'fitToWindow' }
+  | { type: 'resetZoom' }
+  | { type: 'reloadTileset' }
+  | { type: 'checkReachability'; start?: undefined }
+  | {
+      type: 'checkReachability';
+      start: { x: number; y: number };
+      mapId: number;
+      mapName: string;
+      otherMaps: Array<OtherMap>;
+    }
+  | ResponseMessage;
+
+/**
+ * Messages sent by the map editor to the extension.
+ */
+export type FromMapEditorMessage =
+  | { type: 'ready' }
+  | { type: 'setCursorPos'; x: number; y: number }
+  | ({ type: 'editCells' } & Pick<MapAreaEdit, 'changes'> & Partial<MapAreaEdit>)
+  | { type: 'setEvent'; event: MapEvent }
+  | { type: 'deleteEvent'; id: number }
+  | { type: 'editMap'; map: MapContent }
+  | { type: 'copy'; clip: MapClip }
+  | { type: 'showWarning'; text: string }
+  | { type: 'showInformation'; text: string }
+  | RequestMessage<MapEditorRequest>;
+
+/**
+ * Messages sent by the extension to the Map Tiles view.
+ */
+export type ToMapTilesMessage = { type: 'reloadTileset'; tilesetId: number; tilesetNames: Array<string> };
+
+/**
+ * Messages sent by the Map Tiles view to the extension.
+ */
+export type FromMapTilesMessage = { type: 'selectTiles' } & Brush;
+
+/**
+ * Messages sent by the extension to the tileset editor.
+ */
+export type ToTilesetEditorMessage = { type: 'update'; text: string };
+
+/**
+ * Messages sent by the tileset editor to the extension.
+ */
+export type FromTilesetEditorMessage =
+  | { type: 'ready' }
+  | { type: 'editFlags'; tilesetId: number; changes: Array<TileFlagChange> };
+
+//-----------------------------------------------------------------------------
+// Validation
+
+type Check = (value: unknown) => boolean;
+
+const isNumber: Check = (value) => typeof value === 'number' && Number.isFinite(value);
+/** Non-negative integers: IDs, sizes, map coordinates and tile IDs. */
+const isIndex: Check = (value) => Number.isInteger(value) && (value as number) >= 0;
+const isString: Check = (value) => typeof value === 'string';
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+const optional =
+  (check: Check): Check =>
+  (value) =>
+    value === undefined || check(value);
+const nullable =
+  (check: Check): Check =>
+  (value) =>
+    value === null || check(value);
+const arrayOf =
+  (check: Check): Check =>
+  (value) =>
+    Array.isArray(value) && value.every(check);
+const shape =
+  (fields: Record<string, Check>): Check =>
+  (value) =>
+    isRecord(value) && Object.entries(fields).every(([key, check]) => check(value[key]));
+
+const isCellChange = shape({ x: isIndex, y: isIndex, z: isIndex, tileId: isIndex });
+/** Events are checked by their ID only. Their other properties are written as they are. */
+const isEvent = shape({ id: isIndex });
+const isBrushFields = { width: isIndex, height: isIndex, tileIds: arrayOf(isIndex) };
+const isClip = shape({
+  tilesetId: isIndex,
+  width: isIndex,
+  height: isIndex,
+  data: arrayOf(isIndex),
+  events: arrayOf(isEvent)
+});
+const isAreaEditFields = {
+  changes: arrayOf(isCellChange),
+  events: arrayOf(isEvent),
+  deletedEventIds: arrayOf(isIndex)
+};
+const isMapContent = shape({
+  tilesetId: isIndex,
+  width: isIndex,
+  height: isIndex,
+  data: arrayOf(isIndex),
+  events: optional(arrayOf(nullable(isEvent)))
+});
+const isResponse = shape({ requestId: isIndex, error: optional(isString) });
+
+/**
+ * Returns a function checking that a value is one of the messages, by the check of its `type`.
+ */
+function createMessageCheck<Message extends { type: string }>(checks: { [T in Message['type']]: Check }) {
+  return (value: unknown): value is Message =>
+    isRecord(value) &&
+    typeof value.type === 'string' &&
+    Object.hasOwn(checks, value.type) &&
+    checks[value.type as Message['type']](value);
+}
+
+export const isToMapEditorMessage = createMessageCheck<ToMapEditorMessage>({
+  update: shape({ text: isString }),
+  updateCells: shape(isAreaEditFields),
+  setBrush: shape({ brush: shape(isBrushFields) }),
+  setClipboard: shape({ clip: optional(isClip) }),
+  fitToWindow: () => true,
+  resetZoom: () => true,
+  reloadTileset: () => true,
+  checkReachability: (value) =>
+    shape({ start: (start) => start === undefined })(value) ||
+    shape({
+      start: shape({ x: isIndex, y: isIndex }),
+      mapId: isIndex,
+      mapName: isString,
+      otherMaps: arrayOf(shape({ name: isString, events: arrayOf(nullable(isEvent)) }))
+    })(value),
+  response: isResponse
+});
+
+export const isFromMapEditorMessage = createMessageCheck<FromMapEditorMessage>({
+  ready: () => true,
+  setCursorPos: shape({ x: isNumber, y: isNumber }),
+  editCells: shape({
+    changes: isAreaEditFields.changes,
+    events: optional(isAreaEditFields.events),
+    deletedEventIds: optional(isAreaEditFields.deletedEventIds)
+  }),
+  setEvent: shape({ event: isEvent }),
+  deleteEvent: shape({ id: isIndex }),
+  editMap: shape({ map: isMapContent }),
+  copy: shape({ clip: isClip }),
+  showWarning: shape({ text: isString }),
+  showInformation: shape({ text: isString }),
+  getTroops: shape({ requestId: isIndex })
+});
+
+export const isToMapTilesMessage = createMessageCheck<ToMapTilesMessage>({
+  reloadTileset: shape({ tilesetId: isIndex, tilesetNames: arrayOf(isString) })
+});
+
+export const isFromMapTilesMessage = createMessageCheck<FromMapTilesMessage>({
+  selectTiles: shape(isBrushFields)
+});
+
+export const isToTilesetEditorMessage = createMessageCheck<ToTilesetEditorMessage>({
+  update: shape({ text: isString })
+});
+
+export const isFromTilesetEditorMessage = createMessageCheck<FromTilesetEditorMessage>({
+  ready: () => true,
+  editFlags: shape({ tilesetId: isIndex, changes: arrayOf(shape({ tileId: isIndex, flags: isIndex })) })
+});
+
+//-----------------------------------------------------------------------------
+// Map deltas
+
+/**
+ * The map properties compared by `getMapDelta`, i.e. all but `data` and `events`.
+ */
+function getProperties(map: MapContent) {
+  return JSON.stringify({ ...map, data: undefined, events: undefined });
+}
+
+/**
+ * Returns the tile and event changes from one version of the map to another,
+ * or `undefined` if anything else changed, e.g. the size or the tileset, and the whole map has to be sent.
+ */
+export function getMapDelta(oldMap: MapContent, newMap: MapContent): MapAreaEdit | undefined {
+  if (getProperties(oldMap) !== getProperties(newMap) || oldMap.data.length !== newMap.data.length) {
+    return undefined;
+  }
+  const { width, height } = newMap;
+  const changes: Array<MapCellChange> = [];
+  newMap.data.forEach((tileId, index) => {
+    if (tileId !== oldMap.data[index]) {
+      const layerIndex = index % (width * height);
+      changes.push({
+        x: layerIndex % width,
+        y: Math.floor(layerIndex / width),
+        z: Math.floor(index / (width * height)),
+        tileId
+      });
+    }
+  });
+
+  const events: Array<MapEvent> = [];
+  const deletedEventIds: Array<number> = [];
+  const oldEvents = oldMap.events ?? [];
+  const newEvents = newMap.events ?? [];
+  for (let id = 0; id < Math.max(oldEvents.length, newEvents.length); id++) {
+    const oldEvent = oldEvents[id];
+    const newEvent = newEvents[id];
+    if (!newEvent) {
+      if (oldEvent) deletedEventIds.push(id);
+    } else if (JSON.stringify(oldEvent) !== JSON.stringify(newEvent)) {
+      events.push(newEvent);
+    }
+  }
+  return { changes, events, deletedEventIds };
+}
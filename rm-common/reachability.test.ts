@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest';
+import { EventCode } from './commands';
+import { createEvent, type MapEvent } from './events';
+import { checkPassage, TileFlag } from './flags';
+import { LAYER_COUNT } from './layers';
+import {
+  checkReachability,
+  findPath,
+  getReachableCells,
+  getTransferTargets,
+  type ReachabilityMap
+} from './reachability';
+
+const GROUND = 1;
+const WALL = 2;
+/** Can be entered from the left and left toward it only */
+const LEFT_ONLY = 3;
+/** Drawn above characters, letting the tile below decide */
+const STAR = 4;
+const COUNTER = 5;
+
+/** The tileset flags of the tiles above. Empty tiles are star tiles, as in the tilesets of RPG Maker. */
+const FLAGS = [
+  TileFlag.Star,
+  0,
+  0x0f,
+  TileFlag.BlockDown | TileFlag.BlockRight | TileFlag.BlockUp,
+  TileFlag.Star | 0x0f,
+  TileFlag.Counter | 0x0f
+];
+
+/**
+ * Creates a map whose layer 1 holds the given rows of tiles.
+ */
+function createMap(rows: Array<Array<number>>, events: Array<MapEvent | null> = [null]): ReachabilityMap {
+  const width = rows[0].length;
+  const height = rows.length;
+  const data = new Array<number>(width * height * LAYER_COUNT).fill(0);
+  data.splice(0, width * height, ...rows.flat());
+  return { width, height, data, events };
+}
+
+const cellsOf = (map: ReachabilityMap, reachable: Uint8Array) =>
+  map.data.slice(0, map.width * map.height).map((_, index) => reachable[index]);
+
+const createBlockingEvent = (id: number, x: number, y: number) => {
+  const event = createEvent(id, x, y);
+  event.pages[0].priorityType = 1;
+  return event;
+};
+
+describe('getReachableCells', () => {
+  it('walks over the cells passable in both directions of each step, as checkPassage decides', () => {
+    const map = createMap([
+      [GROUND, GROUND, WALL, GROUND],
+      [GROUND, LEFT_ONLY, WALL, GROUND]
+    ]);
+    // The step from (0, 1) to (1, 1) is rightward: leaving (0, 1) to the right, entering (1, 1) from the left
+    expect(checkPassage(map, FLAGS, 0, 1, TileFlag.BlockRight)).toBe(true);
+    expect(checkPassage(map, FLAGS, 1, 1, TileFlag.BlockLeft)).toBe(true);
+    // Leaving (1, 1) upward is blocked, though (1, 0) could be entered from below
+    expect(checkPassage(map, FLAGS, 1, 1, TileFlag.BlockUp)).toBe(false);
+    expect(checkPassage(map, FLAGS, 1, 0, TileFlag.BlockDown)).toBe(true);
+
+    expect(cellsOf(map, getReachableCells(map, FLAGS, 0, 0))).toEqual([1, 1, 0, 0, 1, 1, 0, 0]);
+    // From (1, 1), the only way out is back to the left
+    expect(cellsOf(map, getReachableCells(map, FLAGS, 1, 1))).toEqual([1, 1, 0, 0, 1, 1, 0, 0]);
+  });
+
+  it('lets the tile below a star tile decide', () => {
+    const map = createMap([[GROUND, GROUND, GROUND]]);
+    // Layer 2 of (1, 0)
+    map.data[3 + 1] = STAR;
+    expect(checkPassage(map, FLAGS, 1, 0, TileFlag.BlockLeft)).toBe(true);
+    expect(cellsOf(map, getReachableCells(map, FLAGS, 0, 0))).toEqual([1, 1, 1]);
+
+    map.data[1] = WALL;
+    expect(cellsOf(map, getReachableCells(map, FLAGS, 0, 0))).toEqual([1, 0, 0]);
+  });
+
+  it('is blocked by events same as characters', () => {
+    const map = createMap([[GROUND, GROUND, GROUND]], [null, createBlockingEvent(1, 1, 0)]);
+    expect(cellsOf(map, getReachableCells(map, FLAGS, 0, 0))).toEqual([1, 0, 0]);
+
+    map.events![1]!.pages[0].through = true;
+    expect(cellsOf(map, getReachableCells(map, FLAGS, 0, 0))).toEqual([1, 1, 1]);
+  });
+
+  it('wraps around looping maps', () => {
+    const map = createMap([[GROUND, WALL, GROUND]]);
+    expect(cellsOf(map, getReachableCells(map, FLAGS, 0, 0))).toEqual([1, 0, 0]);
+    expect(cellsOf(map, getReachableCells({ ...map, scrollType: 2 }, FLAGS, 0, 0))).toEqual([1, 0, 1]);
+  });
+});
+
+describe('findPath', () => {
+  it('returns the shortest walk around the walls', () => {
+    const map = createMap([
+      [GROUND, WALL, GROUND],
+      [GROUND, GROUND, GROUND]
+    ]);
+    expect(findPath(map, FLAGS, { x: 0, y: 0 }, { x: 2, y: 0 })).toEqual([
+      { x: 0, y: 0 },
+      { x: 0, y: 1 },
+      { x: 1, y: 1 },
+      { x: 2, y: 1 },
+      { x: 2, y: 0 }
+    ]);
+    expect(findPath(map, FLAGS, { x: 0, y: 0 }, { x: 1, y: 0 })).toBeUndefined();
+  });
+});
+
+describe('checkReachability', () => {
+  it('reports the events and transfer targets the player cannot reach', () => {
+    const talk = createBlockingEvent(1, 2, 0);
+    const behindCounter = createBlockingEvent(2, 2, 1);
+    const beyondWall = createEvent(3, 4, 1);
+    const map = createMap(
+      [
+        [GROUND, GROUND, GROUND, WALL, GROUND],
+        [GROUND, COUNTER, GROUND, WALL, GROUND]
+      ],
+      [null, talk, behindCounter, beyondWall]
+    );
+    const transfers = [
+      { x: 1, y: 0, source: 'Map002 EV001 (page 1)' },
+      { x: 4, y: 0, source: 'Map002 EV002 (page 1)' }
+    ];
+    const result = checkReachability(map, FLAGS, 0, 1, transfers);
+    expect(result.unreachableEvents).toEqual([beyondWall]);
+    expect(result.unreachableTransfers).toEqual([transfers[1]]);
+  });
+});
+
+describe('getTransferTargets', () => {
+  it('returns the destinations in the map designated directly', () => {
+    const event = createEvent(1, 0, 0);
+    event.pages[0].list = [
+      { code: EventCode.TransferPlayer, indent: 0, parameters: [0, 3, 5, 6, 0, 0] },
+      { code: EventCode.TransferPlayer, indent: 0, parameters: [0, 4, 1, 1, 0, 0] },
+      { code: EventCode.TransferPlayer, indent: 0, parameters: [1, 1, 2, 3, 0, 0] },
+      { code: EventCode.End, indent: 0, parameters: [] }
+    ];
+    expect(getTransferTargets([null, event], 3, 'Map002')).toEqual([{ x: 5, y: 6, source: 'Map002 EV001 (page 1)' }]);
+  });
+});
@@ -0,0 +1,237 @@
+import type { MapPoint } from './brush';
+import { EventCode, isCommand } from './commands';
+import type { MapEvent } from './events';
+import { checkPassage, TileFlag } from './flags';
+import type { MapData } from './rmmv';
+
+/**
+ * The part of the map used to find where the player can walk.
+ * `scrollType` is 1 for vertical loop, 2 for horizontal loop and 3 for both, as in the map properties.
+ */
+export type ReachabilityMap = Pick<MapData, 'width' | 'height' | 'data' | 'events'> & { scrollType?: number };
+
+/**
+ * A place where the player is transferred to by a `Transfer Player` command, and where the command is.
+ */
+export type TransferTarget = MapPoint & { source: string };
+
+/**
+ * The result of `checkReachability`. `reachable` has a byte per cell, row by row, set where the player can walk.
+ */
+export type Reachability = {
+  reachable: Uint8Array;
+  unreachableEvents: Array<MapEvent>;
+  unreachableTransfers: Array<TransferTarget>;
+};
+
+/** The directions of the game, with their offsets: down, left, right and up */
+const DIRECTIONS = [
+  { d: 2, dx: 0, dy: 1 },
+  { d: 4, dx: -1, dy: 0 },
+  { d: 6, dx: 1, dy: 0 },
+  { d: 8, dx: 0, dy: -1 }
+] as const;
+
+/** The passage bit of the direction `d`, as `Game_Map.isPassable` computes it */
+const directionBit = (d: number) => (1 << (d / 2 - 1)) & 0x0f;
+
+const loopsHorizontally = (map: ReachabilityMap) => map.scrollType === 2 || map.scrollType === 3;
+const loopsVertically = (map: ReachabilityMap) => map.scrollType === 1 || map.scrollType === 3;
+
+/**
+ * Returns the cell next to (x, y) in the direction, wrapping around looping maps, or `undefined` outside the map.
+ */
+function getNeighbor(map: ReachabilityMap, x: number, y: number, dx: number, dy: number): MapPoint | undefined {
+  let nx = x + dx;
+  let ny = y + dy;
+  if (loopsHorizontally(map)) nx = (nx + map.width) % map.width;
+  if (loopsVertically(map)) ny = (ny + map.height) % map.height;
+  if (nx < 0 || nx >= map.width || ny < 0 || ny >= map.height) {
+    return undefined;
+  }
+  return { x: nx, y: ny };
+}
+
+/**
+ * Whether the event stops the player in all of its pages, i.e. it has the priority `Same as characters`
+ * and is not `Through`. Events changing this with their pages are assumed not to block the way.
+ */
+function isBlockingEvent(event: MapEvent) {
+  return event.pages.length > 0 && event.pages.every((page) => page.priorityType === 1 && !page.through);
+}
+
+/**
+ * Returns a byte per cell, set where an event stops the player.
+ */
+function getBlockedCells(map: ReachabilityMap) {
+  const blocked = new Uint8Array(map.width * map.height);
+  for (const event of map.events ?? []) {
+    if (
+      event &&
+      isBlockingEvent(event) &&
+      event.x >= 0 &&
+      event.x < map.width &&
+      event.y >= 0 &&
+      event.y < map.height
+    ) {
+      blocked[event.y * map.width + event.x] = 1;
+    }
+  }
+  return blocked;
+}
+
+/**
+ * Returns the cells the player can walk to from (x, y) in one step,
+ * as `Game_CharacterBase.canPass` decides for a player on foot.
+ */
+function getSteps(map: ReachabilityMap, flags: ArrayLike<number>, blocked: Uint8Array, x: number, y: number) {
+  const steps: Array<MapPoint> = [];
+  for (const { d, dx, dy } of DIRECTIONS) {
+    const next = getNeighbor(map, x, y, dx, dy);
+    if (
+      next &&
+      !blocked[next.y * map.width + next.x] &&
+      checkPassage(map, flags, x, y, directionBit(d)) &&
+      checkPassage(map, flags, next.x, next.y, directionBit(10 - d))
+    ) {
+      steps.push(next);
+    }
+  }
+  return steps;
+}
+
+/**
+ * Searches the map breadth first from (x, y), and returns the step each reached cell was entered from,
+ * as the index of the previous cell, or -1 for the start and the cells not reached.
+ * The search stops at `goal` if it is given.
+ */
+function searchFrom(map: ReachabilityMap, flags: ArrayLike<number>, x: number, y: number, goal?: MapPoint) {
+  const previous = new Int32Array(map.width * map.height).fill(-1);
+  const visited = new Uint8Array(map.width * map.height);
+  if (x < 0 || x >= map.width || y < 0 || y >= map.height) {
+    return { previous, visited };
+  }
+  const blocked = getBlockedCells(map);
+  const queue: Array<MapPoint> = [{ x, y }];
+  visited[y * map.width + x] = 1;
+  for (let head = 0; head < queue.length; head++) {
+    const cell = queue[head];
+    if (goal && cell.x === goal.x && cell.y === goal.y) {
+      break;
+    }
+    for (const next of getSteps(map, flags, blocked, cell.x, cell.y)) {
+      const index = next.y * map.width + next.x;
+      if (!visited[index]) {
+        visited[index] = 1;
+        previous[index] = cell.y * map.width + cell.x;
+        queue.push(next);
+      }
+    }
+  }
+  return { previous, visited };
+}
+
+/**
+ * Returns the cells the player can walk to from (x, y), a byte per cell row by row.
+ * Events which always stop the player block the way.
+ */
+export function getReachableCells(map: ReachabilityMap, flags: ArrayLike<number>, x: number, y: number) {
+  return searchFrom(map, flags, x, y).visited;
+}
+
+/**
+ * Returns the shortest walk from `from` to `to`, including both, or `undefined` if there is none.
+ */
+export function findPath(map: ReachabilityMap, flags: ArrayLike<number>, from: MapPoint, to: MapPoint) {
+  const { previous, visited } = searchFrom(map, flags, from.x, from.y, to);
+  if (to.x < 0 || to.x >= map.width || to.y < 0 || to.y >= map.height || !visited[to.y * map.width + to.x]) {
+    return undefined;
+  }
+  const path: Array<MapPoint> = [];
+  for (let index = to.y * map.width + to.x; index >= 0; index = previous[index]) {
+    path.push({ x: index % map.width, y: Math.floor(index / map.width) });
+  }
+  return path.reverse();
+}
+
+/**
+ * Whether the player can start the event from one of the reachable cells, as `Game_Player` does:
+ * events below or above characters are started on their cell, and events same as characters from a cell
+ * next to them, or across a counter. Autorun and parallel pages need no player.
+ */
+export function isEventReachable(
+  map: ReachabilityMap,
+  flags: ArrayLike<number>,
+  reachable: Uint8Array,
+  event: MapEvent
+) {
+  const isReachable = (cell: MapPoint | undefined) => !!cell && !!reachable[cell.y * map.width + cell.x];
+  const isCounter = (cell: MapPoint) =>
+    [0, 1, 2, 3].some((z) => {
+      const tileId = map.data[(z * map.height + cell.y) * map.width + cell.x] ?? 0;
+      return tileId > 0 && ((flags[tileId] ?? 0) & TileFlag.Counter) !== 0;
+    });
+
+  return event.pages.some((page) => {
+    if (page.trigger === 3 || page.trigger === 4) {
+      return true;
+    }
+    if (page.priorityType !== 1 || page.through) {
+      return isReachable(event);
+    }
+    return DIRECTIONS.some(({ dx, dy }) => {
+      const front = getNeighbor(map, event.x, event.y, dx, dy);
+      if (isReachable(front)) {
+        return true;
+      }
+      return !!front && isCounter(front) && isReachable(getNeighbor(map, front.x, front.y, dx, dy));
+    });
+  });
+}
+
+/**
+ * Returns where the `Transfer Player` commands of the events transfer the player to in the map `mapId`.
+ * Only destinations designated directly are known without running the game.
+ * `sourceName` names the map of the events, e.g. `Map002`.
+ */
+export function getTransferTargets(events: ReachabilityMap['events'], mapId: number, sourceName: string) {
+  const targets: Array<TransferTarget> = [];
+  for (const event of events ?? []) {
+    event?.pages.forEach((page, pageIndex) => {
+      for (const command of page.list) {
+        if (!isCommand(command, EventCode.TransferPlayer)) continue;
+        const [designation, targetMapId, x, y] = command.parameters;
+        if (designation === 0 && targetMapId === mapId) {
+          targets.push({ x, y, source: `${sourceName} ${event.name} (page ${pageIndex + 1})` });
+        }
+      }
+    });
+  }
+  return targets;
+}
+
+/**
+ * Finds the events of the map the player cannot start, and the transfer targets the player cannot walk to,
+ * walking from (x, y).
+ */
+export function checkReachability(
+  map: ReachabilityMap,
+  flags: ArrayLike<number>,
+  x: number,
+  y: number,
+  transfers: Array<TransferTarget> = []
+): Reachability {
+  const reachable = getReachableCells(map, flags, x, y);
+  const unreachableEvents = (map.events ?? []).filter(
+    (event): event is MapEvent => !!event && !isEventReachable(map, flags, reachable, event)
+  );
+  const unreachableTransfers = transfers.filter(
+    (target) =>
+      target.x < 0 ||
+      target.x >= map.width ||
+      target.y < 0 ||
+      target.y >= map.height ||
+      !reachable[target.y * map.width + target.x]
+  );
+  return { reachable, unreachableEvents, unreachableTransfers };
+}
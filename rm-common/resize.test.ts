@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { createEvent } from './events';
+import { LAYER_COUNT } from './layers';
+import { resizeMap } from './resize';
+import type { MapData } from './rmmv';
+
+/** A 2x2 map whose cells hold 1 to 4 on layer 1 and 11 to 14 on the region layer, with events in two corners */
+const createMap = () =>
+  ({
+    tilesetId: 1,
+    width: 2,
+    height: 2,
+    data: [1, 2, 3, 4, ...new Array<number>(4 * 4).fill(0), 11, 12, 13, 14],
+    events: [null, createEvent(1, 0, 0), createEvent(2, 1, 1)]
+  }) as MapData;
+
+/** Returns the rows of layer z */
+const rowsOf = (map: MapData, z: number) =>
+  Array.from({ length: map.height }, (_, y) =>
+    map.data.slice((z * map.height + y) * map.width, (z * map.height + y + 1) * map.width)
+  );
+
+describe('resizeMap', () => {
+  it('moves all layers and the events following the anchor', () => {
+    const { map, removedEventIds } = resizeMap(createMap(), 4, 3, { x: 2, y: 2 });
+    expect(map.data).toHaveLength(4 * 3 * LAYER_COUNT);
+    expect(rowsOf(map, 0)).toEqual([
+      [0, 0, 0, 0],
+      [0, 0, 1, 2],
+      [0, 0, 3, 4]
+    ]);
+    expect(rowsOf(map, 5)[2]).toEqual([0, 0, 13, 14]);
+    expect(map.events?.map((event) => event && [event.x, event.y])).toEqual([null, [2, 1], [3, 2]]);
+    expect(removedEventIds).toEqual([]);
+  });
+
+  it('removes the events left outside a smaller map', () => {
+    const original = createMap();
+    const { map, removedEventIds } = resizeMap(original, 1, 1, { x: 0, y: 0 });
+    expect(map.data).toEqual([1, 0, 0, 0, 0, 11]);
+    expect(map.events).toEqual([null, original.events![1], null]);
+    expect(removedEventIds).toEqual([2]);
+    // The original map is left as it is
+    expect(original.width).toBe(2);
+  });
+});
@@ -0,0 +1,43 @@
+import { LAYER_COUNT } from './layers';
+import type { MapData } from './rmmv';
+
+/**
+ * Where the old map is placed in the resized map, as in the map properties of RPG Maker:
+ * 0 for left (top), 1 for center and 2 for right (bottom).
+ */
+export type ResizeAnchor = { x: 0 | 1 | 2; y: 0 | 1 | 2 };
+
+/**
+ * Returns a copy of the map resized to `width` x `height`. All six layers are moved by the same offset
+ * following the anchor, new cells are empty, and the events are moved with the tiles.
+ * Events which end up outside of the map are removed, and their IDs are returned in `removedEventIds`.
+ */
+export function resizeMap<T extends MapData>(map: T, width: number, height: number, anchor: ResizeAnchor) {
+  const dx = Math.floor(((width - map.width) * anchor.x) / 2);
+  const dy = Math.floor(((height - map.height) * anchor.y) / 2);
+  const data = new Array<number>(width * height * LAYER_COUNT).fill(0);
+  for (let z = 0; z < LAYER_COUNT; z++) {
+    for (let y = 0; y < map.height; y++) {
+      const ny = y + dy;
+      if (ny < 0 || ny >= height) continue;
+      for (let x = 0; x < map.width; x++) {
+        const nx = x + dx;
+        if (nx < 0 || nx >= width) continue;
+        data[(z * height + ny) * width + nx] = map.data[(z * map.height + y) * map.width + x] ?? 0;
+      }
+    }
+  }
+
+  const removedEventIds: Array<number> = [];
+  const events = map.events?.map((event) => {
+    if (!event) return null;
+    const x = event.x + dx;
+    const y = event.y + dy;
+    if (x < 0 || x >= width || y < 0 || y >= height) {
+      removedEventIds.push(event.id);
+      return null;
+    }
+    return { ...event, x, y };
+  });
+  return { map: { ...map, width, height, data, ...(events && { events }) }, removedEventIds };
+}
@@ -1,5 +1,6 @@
 import * as PIXI from 'pixi.js';
-import { CompositeTilemap } from './pixi-tilemap';
+import { CompositeTilemap, Tilemap as PixiTilemap } from './pixi-tilemap';
+import type { MapEvent } from './events';
 
 /**
  * Returns a modulo value which is always positive.
@@ -134,7 +135,7 @@ export abstract class Tilemap extends Stage {
   /**
    * The tileset flags.
    */
-  flags = [];
+  flags: Array<number> = [];
 
   /**
    * The animation count for autotiles.
@@ -488,7 +489,7 @@ export class ShaderTilemap extends Tilemap {
 
   public lowerLayer: CompositeTilemap[];
   public upperLayer: CompositeTilemap[];
-  public shadowLayer: CompositeTilemap;
+  public shadowLayer: PixiTilemap;
 
   /** Whether to paint the whole map at once */
   public readonly paintAll;
@@ -501,7 +502,10 @@ export class ShaderTilemap extends Tilemap {
     // Adapted from old _createLayers
     this.lowerLayer = Array.from({ length: 4 }, () => new CompositeTilemap());
     this.addChild(this.lowerLayer[0], this.lowerLayer[1]);
-    this.shadowLayer = new CompositeTilemap();
+    // Shadows are solid rectangles. The batch applies the tint and alpha of the layer to them.
+    this.shadowLayer = new PixiTilemap(PIXI.Texture.WHITE);
+    this.shadowLayer.tint = 0x000000;
+    this.shadowLayer.alpha = 0.5;
     this.addChild(this.shadowLayer);
     this.addChild(this.lowerLayer[2], this.lowerLayer[3]);
     this.upperLayer = Array.from({ length: 4 }, () => new CompositeTilemap());
@@ -524,6 +528,31 @@ export class ShaderTilemap extends Tilemap {
     this._repaint(true);
   }
 
+  /**
+   * Repaints the tilemap after some cells of the map data are changed in place.
+   * Nothing is repainted when none of the cells is in the painted area.
+   */
+  public refreshCells(cells: Array<{ x: number; y: number }>) {
+    // A table tile also draws its edge on the cell below it
+    if (this.paintAll || cells.some(({ x, y }) => this._isPaintedCell(x, y) || this._isPaintedCell(x, y + 1))) {
+      this._repaint(true);
+    }
+  }
+
+  private _isPaintedCell(x: number, y: number) {
+    if (this._lastStartX === undefined || this._lastStartY === undefined || this.horizontalWrap || this.verticalWrap) {
+      return true;
+    }
+    const tileCols = Math.ceil(this._width / this._tileWidth) + 1;
+    const tileRows = Math.ceil(this._height / this._tileHeight) + 1;
+    return (
+      x >= this._lastStartX &&
+      x < this._lastStartX + tileCols &&
+      y >= this._lastStartY &&
+      y < this._lastStartY + tileRows
+    );
+  }
+
   /**
    * Updates bitmaps list
    */
@@ -864,7 +893,7 @@ export class ShaderTilemap extends Tilemap {
     }
   }
 
-  protected _drawShadow(layer: CompositeTilemap, shadowBits: number, dx: number, dy: number) {
+  protected _drawShadow(layer: PixiTilemap, shadowBits: number, dx: number, dy: number) {
     if (shadowBits & 0x0f) {
       const w1 = this._tileWidth / 2;
       const h1 = this._tileHeight / 2;
@@ -874,10 +903,7 @@ export class ShaderTilemap extends Tilemap {
           const dx1 = dx + (i % 2) * w1;
           const dy1 = dy + Math.floor(i / 2) * h1;
 
-          layer.tile(-1, dx1, dy1, {
-            tileWidth: w1,
-            tileHeight: h1
-          });
+          layer.rect(dx1, dy1, w1, h1);
         }
       }
     }
@@ -890,29 +916,79 @@ export type MapData = {
   width: number;
   height: number;
   data: number[];
+  events?: Array<MapEvent | null>;
 };
 
 export type AssetPaths = {
   tilesets: string;
   map: string;
   tilesetNames: string[];
+  /** The folder of character images, i.e. `img/characters` */
+  characters?: string;
+  /** The folder of tileset images, i.e. `img/tilesets`, to load another tileset of the map */
+  tilesetImages?: string;
+  /** The size of a tile in pixels. MZ projects may set it in `System.json`, MV ones always use 48. */
+  tileSize?: number;
+};
+
+/**
+ * A tileset of `Tilesets.json`, with the properties used to show a map.
+ */
+export type TilesetData = {
+  id: number;
+  name: string;
+  mode: number;
+  tilesetNames: Array<string>;
+  flags: Array<number>;
 };
 
 export class LevelLoader {
+  /** The URL of `Tilesets.json` */
+  private tilesetsUrl = '';
+  /** Appended to the URLs, so that the files are loaded again after `bustCache` */
+  private revision = 0;
+  /** The URLs loaded with the current revision */
+  private loadedUrls = new Set<string>();
+  /** The URLs of the previous revisions, unloaded by `releaseStale` */
+  private staleUrls = new Set<string>();
+  /** The size of a tile in pixels, in the tileset images and in the tilemaps */
+  public tileSize = 48;
+
   async load(map: MapData, assetPaths: AssetPaths, paintAll = false) {
-    PIXI.Assets.add({ alias: 'tilesets', src: assetPaths.tilesets });
-    const tilesets = await PIXI.Assets.load('tilesets');
-    const tilesetFlags = tilesets[map.tilesetId].flags;
+    this.tilesetsUrl = assetPaths.tilesets;
+    this.tileSize = assetPaths.tileSize ?? this.tileSize;
+    const tilesets = await this.loadTilesets();
+    return this.loadTileset(map, assetPaths.tilesetNames, tilesets[map.tilesetId]?.flags ?? [], paintAll);
+  }
+
+  /**
+   * Returns the content of `Tilesets.json`, which is loaded once for each revision.
+   */
+  async loadTilesets(): Promise<Array<TilesetData | null>> {
+    return PIXI.Assets.load(this.getUrl(this.tilesetsUrl));
+  }
+
+  /**
+   * Creates the tilemap of the map from the URLs of the tileset images and the tileset flags,
+   * e.g. ones of a `Tilesets.json` which is not saved yet.
+   */
+  async loadTileset(map: MapData, tilesetNames: Array<string>, tilesetFlags: Array<number>, paintAll = false) {
     const tileResources: Record<string, PIXI.Texture | undefined> = {};
 
-    for (const tileName of assetPaths.tilesetNames) {
+    for (const tileName of tilesetNames) {
       if (tileName.length > 0) {
-        tileResources[tileName] = await PIXI.Assets.load(tileName);
+        tileResources[tileName] = await PIXI.Assets.load(this.getUrl(tileName));
       }
     }
-    const result = new ShaderTilemap(map.width * 48, map.height * 48, paintAll);
-
-    for (const tileName of assetPaths.tilesetNames) {
+    // Without paintAll, only the visible tiles are painted and the caller sets the size of the view.
+    const { tileSize } = this;
+    const result = paintAll
+      ? new ShaderTilemap(map.width * tileSize, map.height * tileSize, true)
+      : new ShaderTilemap(0, 0);
+    result.tileWidth = tileSize;
+    result.tileHeight = tileSize;
+
+    for (const tileName of tilesetNames) {
       const tex = tileResources[tileName];
 
       result.bitmaps.push(tex);
@@ -926,6 +1002,33 @@ export class LevelLoader {
 
     return result;
   }
+
+  /**
+   * Makes the next loads read `Tilesets.json` and the tileset images again, after they are changed on disk.
+   * `PIXI.Assets` caches them by URL, so a new revision is appended to their URLs.
+   */
+  bustCache() {
+    this.revision++;
+    for (const url of this.loadedUrls) {
+      this.staleUrls.add(url);
+    }
+    this.loadedUrls.clear();
+  }
+
+  /**
+   * Unloads the files of the previous revisions, once the tilemaps using them are destroyed.
+   */
+  async releaseStale() {
+    const urls = [...this.staleUrls];
+    this.staleUrls.clear();
+    await PIXI.Assets.unload(urls);
+  }
+
+  private getUrl(url: string) {
+    const result = this.revision === 0 ? url : `${url}${url.includes('?') ? '&' : '?'}v=${this.revision}`;
+    this.loadedUrls.add(result);
+    return result;
+  }
 }
 
 export function requireRpgMaker() {
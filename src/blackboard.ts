@@ -1,14 +1,53 @@
 import { EventEmitter } from 'eventemitter3';
+import * as path from 'path';
+import type * as vscode from 'vscode';
+import type { Brush, MapClip } from '../rm-common/protocol';
 
 export class Blackboard extends EventEmitter {
-  private _activeMapName: string = '';
+  private _activeMapUri: vscode.Uri | undefined = undefined;
+  private _brush: Brush = { width: 1, height: 1, tileIds: [0] };
+  private _clipboard: MapClip | undefined = undefined;
 
+  /**
+   * The map file of the focused map editor.
+   */
+  public get activeMapUri() {
+    return this._activeMapUri;
+  }
+
+  public set activeMapUri(value: vscode.Uri | undefined) {
+    this._activeMapUri = value;
+    this.emit('activeMapChange');
+  }
+
+  /**
+   * The file name of the focused map, e.g. `Map001.json`, or an empty string if no map was focused yet.
+   */
   public get activeMapName() {
-    return this._activeMapName;
+    return this._activeMapUri ? path.basename(this._activeMapUri.path) : '';
+  }
+
+  /**
+   * The tiles selected in the Map Tiles view.
+   */
+  public get brush() {
+    return this._brush;
+  }
+
+  public set brush(value: Brush) {
+    this._brush = value;
+    this.emit('brushChange');
+  }
+
+  /**
+   * The map area copied in a map editor, held here to be pasted in any map editor.
+   */
+  public get clipboard() {
+    return this._clipboard;
   }
 
-  public set activeMapName(value: string) {
-    this._activeMapName = value;
-    this.emit('activeMapNameChange');
+  public set clipboard(value: MapClip | undefined) {
+    this._clipboard = value;
+    this.emit('clipboardChange');
   }
 }
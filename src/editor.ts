@@ -1,16 +1,45 @@
 import * as vscode from 'vscode';
-import { getNonce } from './util';
+import { createEditQueue, fixLinks, getNonce, isTilesetFileUsed, replaceDocumentText, watchTilesetFiles } from './util';
 import { Blackboard } from './blackboard';
+import { stringifyMap } from './serializer';
+import { findProject, readTileSize } from './project';
 import * as path from 'path';
+import type { MapEvent } from '../rm-common/events';
+import {
+  answerRequest,
+  getMapDelta,
+  isFromMapEditorMessage,
+  type DatabaseEntry,
+  type MapCellChange,
+  type MapContent,
+  type ToMapEditorMessage
+} from '../rm-common/protocol';
 
 export class RMMapEditorProvider implements vscode.CustomTextEditorProvider {
   public static register(context: vscode.ExtensionContext, blackboard: Blackboard): vscode.Disposable {
     const provider = new RMMapEditorProvider(context, blackboard);
     const providerRegistration = vscode.window.registerCustomEditorProvider(RMMapEditorProvider.viewType, provider);
-    return providerRegistration;
+    return vscode.Disposable.from(
+      providerRegistration,
+      vscode.commands.registerCommand('rpgmaker.mapEditor.fitToWindow', () =>
+        provider.postToActiveEditor({ type: 'fitToWindow' })
+      ),
+      vscode.commands.registerCommand('rpgmaker.mapEditor.resetZoom', () =>
+        provider.postToActiveEditor({ type: 'resetZoom' })
+      ),
+      vscode.commands.registerCommand('rpgmaker.mapEditor.checkReachability', () => provider.checkReachability()),
+      watchTilesetFiles((uri) => provider.reloadTilesets(uri))
+    );
   }
 
-  private static readonly viewType = 'rpgmaker.mapEditor';
+  public static readonly viewType = 'rpgmaker.mapEditor';
+
+  /** The webview panel of the focused map editor */
+  private activePanel?: vscode.WebviewPanel;
+  /** The map of the focused map editor */
+  private activeDocument?: vscode.TextDocument;
+  /** The open map editors, with their maps */
+  private readonly panels = new Map<vscode.WebviewPanel, vscode.TextDocument>();
 
   constructor(
     private readonly context: vscode.ExtensionContext,
@@ -30,12 +59,34 @@ export class RMMapEditorProvider implements vscode.CustomTextEditorProvider {
       enableScripts: true
     };
     webviewPanel.webview.html = await this.buildHtmlForWebview(webviewPanel.webview, document);
+    this.panels.set(webviewPanel, document);
 
-    function updateWebview() {
-      webviewPanel.webview.postMessage({
-        type: 'update',
-        text: document.getText()
-      });
+    const post = (message: ToMapEditorMessage) => webviewPanel.webview.postMessage(message);
+
+    // The map last sent to the webview. Later changes of the document are sent as deltas from it,
+    // so that edits made elsewhere, e.g. in a split editor, the text editor or by git, show up without a reload.
+    let syncedMap: MapContent | undefined;
+
+    /**
+     * Send the changes of the document to the webview, or the whole map with `full`
+     * or when more than tiles and events changed.
+     */
+    function updateWebview(full = false) {
+      const text = document.getText();
+      let map: MapContent;
+      try {
+        map = JSON.parse(text);
+      } catch {
+        // Wait until the text is valid again
+        return;
+      }
+      const delta = !full && syncedMap ? getMapDelta(syncedMap, map) : undefined;
+      syncedMap = map;
+      if (!delta) {
+        post({ type: 'update', text });
+      } else if (delta.changes.length > 0 || delta.events.length > 0 || delta.deletedEventIds.length > 0) {
+        post({ type: 'updateCells', ...delta });
+      }
     }
 
     // Hook up event handlers so that we can synchronize the webview with the text document.
@@ -60,30 +111,104 @@ export class RMMapEditorProvider implements vscode.CustomTextEditorProvider {
     );
     this.context.subscriptions.push(cursorStatusBarItem);
 
+    // Only the active editor follows the palette selection
+    const postBrush = () => {
+      post({
+        type: 'setBrush',
+        brush: this.blackboard.brush
+      });
+    };
+    const onBrushChange = () => {
+      if (webviewPanel.active) {
+        postBrush();
+      }
+    };
+    this.blackboard.on('brushChange', onBrushChange);
+
+    // Every map editor can paste what is copied in any of them
+    const postClipboard = () => {
+      post({
+        type: 'setClipboard',
+        clip: this.blackboard.clipboard
+      });
+    };
+    this.blackboard.on('clipboardChange', postClipboard);
+
     // Make sure we get rid of the listener when our editor is closed.
     webviewPanel.onDidDispose(() => {
       changeDocumentSubscription.dispose();
       cursorStatusBarItem.dispose();
+      this.blackboard.removeListener('brushChange', onBrushChange);
+      this.blackboard.removeListener('clipboardChange', postClipboard);
+      this.panels.delete(webviewPanel);
+      if (this.activePanel === webviewPanel) {
+        this.activePanel = undefined;
+        this.activeDocument = undefined;
+      }
     });
 
+    // Edits are applied one after another, so each of them sees the result of the previous one.
+    const queueEdit = createEditQueue();
+
     // Receive message from the webview.
-    webviewPanel.webview.onDidReceiveMessage((e) => {
+    webviewPanel.webview.onDidReceiveMessage((e: unknown) => {
+      // Messages which do not follow the protocol are ignored
+      if (!isFromMapEditorMessage(e)) {
+        return;
+      }
       switch (e.type) {
+        case 'ready':
+          updateWebview(true);
+          postBrush();
+          postClipboard();
+          return;
         case 'setCursorPos':
           this.setCursorPos(cursorStatusBarItem, e.x, e.y);
           return;
+        case 'editCells':
+          queueEdit(() => this.editCells(document, e.changes, e.events, e.deletedEventIds));
+          return;
+        case 'setEvent':
+          queueEdit(() => this.editCells(document, [], [e.event]));
+          return;
+        case 'deleteEvent':
+          queueEdit(() => this.editCells(document, [], [], [e.id]));
+          return;
+        case 'editMap':
+          queueEdit(() => this.editMap(document, e.map));
+          return;
+        case 'copy':
+          this.blackboard.clipboard = e.clip;
+          return;
+        case 'showWarning':
+          vscode.window.showWarningMessage(e.text);
+          return;
+        case 'showInformation':
+          vscode.window.showInformationMessage(e.text);
+          return;
+        case 'getTroops':
+          answerRequest(e.requestId, () => this.readTroops(document), post);
+          return;
       }
     });
 
     // On creation
     if (webviewPanel.active) {
-      this.blackboard.activeMapName = path.basename(document.fileName);
+      this.activePanel = webviewPanel;
+      this.activeDocument = document;
+      this.blackboard.activeMapUri = document.uri;
     }
 
     // On focus change
     webviewPanel.onDidChangeViewState((e) => {
       if (e.webviewPanel.active) {
-        this.blackboard.activeMapName = path.basename(document.fileName);
+        this.activePanel = webviewPanel;
+        this.activeDocument = document;
+        this.blackboard.activeMapUri = document.uri;
+        postBrush();
+      } else if (this.activePanel === webviewPanel) {
+        this.activePanel = undefined;
+        this.activeDocument = undefined;
       }
     });
 
@@ -96,13 +221,15 @@ export class RMMapEditorProvider implements vscode.CustomTextEditorProvider {
   private async buildHtmlForWebview(webview: vscode.Webview, document: vscode.TextDocument): Promise<string> {
     const webviewUri = vscode.Uri.joinPath(this.context.extensionUri, 'map-editor', 'dist');
 
-    if (!vscode.workspace.workspaceFolders) {
+    const project = await findProject(document.uri);
+    if (!project) {
       return '';
     }
     const textDecoder = new TextDecoder();
 
-    const dataFolderUri = vscode.Uri.joinPath(vscode.workspace.workspaceFolders[0].uri, 'data');
-    const imgFolderUri = vscode.Uri.joinPath(vscode.workspace.workspaceFolders[0].uri, 'img', 'tilesets');
+    const dataFolderUri = project.dataUri;
+    const imgFolderUri = vscode.Uri.joinPath(project.imgUri, 'tilesets');
+    const charactersFolderUri = vscode.Uri.joinPath(project.imgUri, 'characters');
 
     const tilesetsJson = JSON.parse(
       textDecoder.decode(await vscode.workspace.fs.readFile(vscode.Uri.joinPath(dataFolderUri, 'Tilesets.json')))
@@ -119,7 +246,10 @@ export class RMMapEditorProvider implements vscode.CustomTextEditorProvider {
     const config = {
       tilesets: `${tilesetsUri}`,
       map: `${mapUri}`,
-      tilesetNames: tilesetUris
+      tilesetNames: tilesetUris,
+      characters: `${webview.asWebviewUri(charactersFolderUri)}`,
+      tilesetImages: `${webview.asWebviewUri(imgFolderUri)}`,
+      tileSize: await readTileSize(project)
     };
 
     const content = await vscode.workspace.fs.readFile(vscode.Uri.joinPath(webviewUri, 'index.html'));
@@ -129,22 +259,129 @@ export class RMMapEditorProvider implements vscode.CustomTextEditorProvider {
     // Use a nonce to whitelist which scripts can be run
     const nonce = getNonce();
 
-    return this.fixLinks(html, webviewUri, webview);
+    return fixLinks(html, webviewUri, webview);
+  }
+
+  /**
+   * Send a message to the focused map editor, if any.
+   */
+  private postToActiveEditor(message: ToMapEditorMessage) {
+    if (this.activePanel) {
+      this.post(this.activePanel, message);
+    }
+  }
+
+  private post(panel: vscode.WebviewPanel, message: ToMapEditorMessage) {
+    panel.webview.postMessage(message);
   }
 
-  private fixLinks(document: string, documentUri: vscode.Uri, webview: vscode.Webview): string {
-    return document.replace(
-      new RegExp('((?:src|href)=[\'"])(.*?)([\'"])', 'gmi'),
-      (subString: string, p1: string, p2: string, p3: string): string => {
-        const lower = p2.toLowerCase();
-        if (p2.startsWith('#') || lower.startsWith('http://') || lower.startsWith('https://')) {
-          return subString;
-        }
-        const newUri = vscode.Uri.joinPath(documentUri, p2);
-        const newUrl = [p1, webview.asWebviewUri(newUri), p3].join('');
-        return newUrl;
+  /**
+   * Ask where the player starts, and send the reachability check to the focused map editor.
+   * The events of the other maps are sent with it, so that the editor can check the transfers to this map.
+   */
+  private async checkReachability() {
+    const panel = this.activePanel;
+    const document = this.activeDocument;
+    const project = document && (await findProject(document.uri));
+    if (!panel || !document || !project) {
+      return;
+    }
+    const textDecoder = new TextDecoder();
+    const dataFolderUri = project.dataUri;
+    const mapName = path.basename(document.fileName, '.json');
+    const mapId = Number(mapName.replace(/^Map/, ''));
+
+    type StartItem = vscode.QuickPickItem & { start?: { x: number; y: number } };
+    const items: Array<StartItem> = [];
+    try {
+      const system = JSON.parse(
+        textDecoder.decode(await vscode.workspace.fs.readFile(vscode.Uri.joinPath(dataFolderUri, 'System.json')))
+      );
+      if (system.startMapId === mapId) {
+        items.push({
+          label: 'Player Start',
+          description: `(${system.startX},${system.startY})`,
+          start: { x: system.startX, y: system.startY }
+        });
       }
-    );
+    } catch {
+      // Without System.json, the check starts from an event
+    }
+    const events: Array<{ id: number; name: string; x: number; y: number } | null> =
+      this.getDocumentAsJson(document).events ?? [];
+    for (const event of events) {
+      if (event) {
+        items.push({
+          label: event.name,
+          description: `#${event.id} (${event.x},${event.y})`,
+          start: { x: event.x, y: event.y }
+        });
+      }
+    }
+    items.push({ label: 'Hide Reachability' });
+
+    const item = await vscode.window.showQuickPick(items, { placeHolder: 'Where does the player start walking?' });
+    if (!item) {
+      return;
+    }
+    if (!item.start) {
+      this.post(panel, { type: 'checkReachability' });
+      return;
+    }
+
+    const otherMaps = [];
+    for (const [fileName] of await vscode.workspace.fs.readDirectory(dataFolderUri)) {
+      if (!/^Map\d+\.json$/.test(fileName) || fileName === path.basename(document.fileName)) {
+        continue;
+      }
+      try {
+        const map = JSON.parse(
+          textDecoder.decode(await vscode.workspace.fs.readFile(vscode.Uri.joinPath(dataFolderUri, fileName)))
+        );
+        otherMaps.push({ name: path.basename(fileName, '.json'), events: map.events ?? [] });
+      } catch {
+        // Maps which cannot be read have no transfers to check
+      }
+    }
+    this.post(panel, { type: 'checkReachability', start: item.start, mapId, mapName, otherMaps });
+  }
+
+  /**
+   * Ask the map editors to load their tileset again after `Tilesets.json` or a tileset image is changed on disk.
+   * Only the editors of the project of the file which use it are reloaded.
+   * They keep their scroll position and their undo history.
+   */
+  private async reloadTilesets(uri: vscode.Uri) {
+    const project = await findProject(uri);
+    if (!project) {
+      return;
+    }
+    const dataFolderUri = project.dataUri;
+    let tilesets: Array<{ tilesetNames: Array<string> } | null>;
+    try {
+      tilesets = JSON.parse(
+        new TextDecoder().decode(
+          await vscode.workspace.fs.readFile(vscode.Uri.joinPath(dataFolderUri, 'Tilesets.json'))
+        )
+      );
+    } catch {
+      // Tilesets.json may be in the middle of being written, and is reloaded when it is complete
+      return;
+    }
+    for (const [panel, document] of this.panels) {
+      if (!document.uri.path.startsWith(`${dataFolderUri.path}/`)) {
+        continue;
+      }
+      let tilesetId: number;
+      try {
+        tilesetId = this.getDocumentAsJson(document).tilesetId;
+      } catch {
+        continue;
+      }
+      if (isTilesetFileUsed(uri, tilesets[tilesetId]?.tilesetNames ?? [])) {
+        this.post(panel, { type: 'reloadTileset' });
+      }
+    }
   }
 
   private setCursorPos(cursorStatusBarItem: vscode.StatusBarItem, x: number, y: number) {
@@ -152,6 +389,70 @@ export class RMMapEditorProvider implements vscode.CustomTextEditorProvider {
     cursorStatusBarItem.show();
   }
 
+  /**
+   * Apply the tile and event changes made in the webview to the document, as one edit.
+   * The events array is indexed by ID, with `null` for unused IDs.
+   */
+  private editCells(
+    document: vscode.TextDocument,
+    changes: Array<MapCellChange>,
+    events: Array<MapEvent> = [],
+    deletedEventIds: Array<number> = []
+  ) {
+    const json = this.getDocumentAsJson(document);
+    const { width, height, data } = json;
+    const layerCount = data.length / (width * height);
+    for (const { x, y, z, tileId } of changes) {
+      if (x < 0 || x >= width || y < 0 || y >= height || z < 0 || z >= layerCount) {
+        continue;
+      }
+      data[(z * height + y) * width + x] = tileId;
+    }
+    for (const event of events) {
+      const mapEvents: Array<MapEvent | null> = (json.events ??= [null]);
+      while (mapEvents.length <= event.id) {
+        mapEvents.push(null);
+      }
+      mapEvents[event.id] = event;
+    }
+    for (const id of deletedEventIds) {
+      if (json.events?.[id]) {
+        json.events[id] = null;
+      }
+    }
+    return this.updateTextDocument(document, json);
+  }
+
+  /**
+   * Apply the properties edited in the webview to the document, as one edit.
+   * The Map Tiles view is rebuilt when the tileset of the focused map is changed.
+   */
+  private async editMap(document: vscode.TextDocument, map: Record<string, unknown>) {
+    const json = this.getDocumentAsJson(document);
+    const tilesetChanged = json.tilesetId !== map.tilesetId;
+    Object.assign(json, map);
+    const applied = await this.updateTextDocument(document, json);
+    if (applied && tilesetChanged && this.activeDocument === document) {
+      this.blackboard.activeMapUri = document.uri;
+    }
+    return applied;
+  }
+
+  /**
+   * Read the names of the troops in `Troops.json`, for the encounter list of the map properties.
+   */
+  private async readTroops(document: vscode.TextDocument): Promise<Array<DatabaseEntry | null>> {
+    const project = await findProject(document.uri);
+    if (!project) {
+      return [];
+    }
+    const uri = vscode.Uri.joinPath(project.dataUri, 'Troops.json');
+    const troops: Array<DatabaseEntry | null> = JSON.parse(
+      new TextDecoder().decode(await vscode.workspace.fs.readFile(uri))
+    );
+    return troops.map((troop) => troop && { id: troop.id, name: troop.name });
+  }
+
   /**
    * Try to get a current document as json text.
    */
@@ -170,14 +471,10 @@ export class RMMapEditorProvider implements vscode.CustomTextEditorProvider {
 
   /**
    * Write out the json to a given document.
+   * The map is serialized in RPG Maker's layout and only the changed part of the text is replaced,
+   * so that each edit is a small undo step and a small diff.
    */
   private updateTextDocument(document: vscode.TextDocument, json: any) {
-    const edit = new vscode.WorkspaceEdit();
-
-    // Just replace the entire document every time for this example extension.
-    // A more complete extension should compute minimal edits instead.
-    edit.replace(document.uri, new vscode.Range(0, 0, document.lineCount, 0), JSON.stringify(json, null, 2));
-
-    return vscode.workspace.applyEdit(edit);
+    return replaceDocumentText(document, stringifyMap(json, document.eol === vscode.EndOfLine.CRLF ? '\r\n' : '\n'));
   }
 }
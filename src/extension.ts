@@ -1,12 +1,16 @@
 import * as vscode from 'vscode';
 import { RMMapEditorProvider } from './editor';
 import { ColorsViewProvider } from './mapTile';
+import { MapTreeProvider } from './mapTree';
+import { RMTilesetEditorProvider } from './tilesetEditor';
 import { Blackboard } from './blackboard';
 
 export function activate(context: vscode.ExtensionContext) {
   const blackboard = new Blackboard();
 
   // Register our custom editor providers
+  context.subscriptions.push(MapTreeProvider.register(context, blackboard));
   context.subscriptions.push(ColorsViewProvider.register(context, blackboard));
   context.subscriptions.push(RMMapEditorProvider.register(context, blackboard));
+  context.subscriptions.push(RMTilesetEditorProvider.register(context));
 }
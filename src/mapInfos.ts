@@ -0,0 +1,160 @@
+/**
+ * Helpers for `MapInfos.json`, the tree of maps shown in RPG Maker's map list.
+ *
+ * It is an array indexed by map ID, with `null` for unused IDs. `order` is the position of the map
+ * when the whole tree is listed from the top, parents before their children.
+ */
+
+/**
+ * An entry of `MapInfos.json`. `parentId` is 0 for maps at the top of the tree.
+ */
+export type MapInfo = {
+  id: number;
+  expanded: boolean;
+  name: string;
+  order: number;
+  parentId: number;
+  scrollX: number;
+  scrollY: number;
+};
+
+/**
+ * Returns the file name of the map, e.g. `Map001.json`.
+ */
+export function getMapFileName(id: number) {
+  return `Map${String(id).padStart(3, '0')}.json`;
+}
+
+/**
+ * Returns the maps directly under `parentId`, in their order.
+ */
+export function getChildInfos(infos: Array<MapInfo | null>, parentId: number) {
+  return infos
+    .filter((info): info is MapInfo => !!info && info.parentId === parentId)
+    .sort((a, b) => a.order - b.order);
+}
+
+/**
+ * Returns the IDs of the map and of all maps under it.
+ */
+export function getSubtreeIds(infos: Array<MapInfo | null>, id: number): Array<number> {
+  return [id, ...getChildInfos(infos, id).flatMap((child) => getSubtreeIds(infos, child.id))];
+}
+
+/**
+ * Renumbers `order` from 1 following the tree, keeping the order of the maps under each parent.
+ */
+export function renumberMapInfos(infos: Array<MapInfo | null>) {
+  let order = 1;
+  const visit = (parentId: number) => {
+    for (const info of getChildInfos(infos, parentId)) {
+      info.order = order++;
+      visit(info.id);
+    }
+  };
+  visit(0);
+}
+
+/**
+ * Moves the map up (-1) or down (1) among the maps under the same parent.
+ * Returns whether the map moved.
+ */
+export function moveMapInfo(infos: Array<MapInfo | null>, id: number, offset: number) {
+  const info = infos[id];
+  if (!info) return false;
+  const siblings = getChildInfos(infos, info.parentId);
+  const index = siblings.indexOf(info);
+  const other = siblings[index + offset];
+  if (!other) return false;
+  [info.order, other.order] = [other.order, info.order];
+  renumberMapInfos(infos);
+  return true;
+}
+
+/**
+ * Moves the map and the maps under it to the end of the maps under `parentId`.
+ * Returns whether the map moved. A map cannot be moved under itself.
+ */
+export function reparentMapInfo(infos: Array<MapInfo | null>, id: number, parentId: number) {
+  const info = infos[id];
+  if (!info || info.parentId === parentId || getSubtreeIds(infos, id).includes(parentId)) {
+    return false;
+  }
+  info.parentId = parentId;
+  info.order = Number.MAX_SAFE_INTEGER;
+  renumberMapInfos(infos);
+  return true;
+}
+
+/**
+ * Returns the lowest map ID which is not used, neither by an entry nor by a map file, e.g. one left by another tool.
+ */
+export function allocateMapId(infos: Array<MapInfo | null>, mapFileIds: ReadonlySet<number> = new Set()) {
+  let id = 1;
+  while (infos[id] || mapFileIds.has(id)) {
+    id++;
+  }
+  return id;
+}
+
+/**
+ * Adds an entry for a new map after `afterId` under `parentId`, or at the end if `afterId` is not given.
+ */
+export function addMapInfo(
+  infos: Array<MapInfo | null>,
+  id: number,
+  name: string,
+  parentId: number,
+  afterId?: number
+): MapInfo {
+  const after = afterId !== undefined ? infos[afterId] : undefined;
+  const info: MapInfo = {
+    id,
+    expanded: false,
+    name,
+    // Between the map it follows and the next one, before renumbering
+    order: after ? after.order + 0.5 : Number.MAX_SAFE_INTEGER,
+    parentId,
+    scrollX: 0,
+    scrollY: 0
+  };
+  while (infos.length <= id) {
+    infos.push(null);
+  }
+  infos[id] = info;
+  renumberMapInfos(infos);
+  return info;
+}
+
+/**
+ * Returns the content of a new empty map, as RPG Maker creates it.
+ */
+export function createMap(tilesetId = 1, width = 17, height = 13) {
+  const audio = { name: '', pan: 0, pitch: 100, volume: 90 };
+  return {
+    autoplayBgm: false,
+    autoplayBgs: false,
+    battleback1Name: '',
+    battleback2Name: '',
+    bgm: audio,
+    bgs: { ...audio },
+    disableDashing: false,
+    displayName: '',
+    encounterList: [],
+    encounterStep: 30,
+    height,
+    note: '',
+    parallaxLoopX: false,
+    parallaxLoopY: false,
+    parallaxName: '',
+    parallaxShow: true,
+    parallaxSx: 0,
+    parallaxSy: 0,
+    scrollType: 0,
+    specifyBattleback: false,
+    tilesetId,
+    width,
+    data: Array.from({ length: width * height * 6 }, () => 0),
+    events: []
+  };
+}
@@ -1,16 +1,24 @@
 import * as vscode from 'vscode';
-import { getNonce } from './util';
+import { fixLinks, getNonce, isTilesetFileUsed, watchTilesetFiles } from './util';
 import { Blackboard } from './blackboard';
+import { findProject, readTileSize, type RpgMakerProject } from './project';
+import { isFromMapTilesMessage, type ToMapTilesMessage } from '../rm-common/protocol';
 
 export class ColorsViewProvider implements vscode.WebviewViewProvider {
   public static readonly viewType = 'rpgmaker.mapTile';
 
   private _view?: vscode.WebviewView;
+  /** The project and the tileset shown in the view */
+  private shown: { dataUri: string; tilesetId: number; tilesetUris: Array<string> } | undefined;
+  private updateRequest = 0;
 
   public static register(context: vscode.ExtensionContext, blackboard: Blackboard): vscode.Disposable {
     const provider = new ColorsViewProvider(context.extensionUri, blackboard);
     const providerRegistration = vscode.window.registerWebviewViewProvider(ColorsViewProvider.viewType, provider);
-    return providerRegistration;
+    return vscode.Disposable.from(
+      providerRegistration,
+      watchTilesetFiles((uri) => provider.reloadTileset(uri))
+    );
   }
 
   constructor(
@@ -24,6 +32,7 @@ export class ColorsViewProvider implements vscode.WebviewViewProvider {
     _token: vscode.CancellationToken
   ) {
     this._view = webviewView;
+    this.shown = undefined;
 
     webviewView.webview.options = {
       // Allow scripts in the webview
@@ -32,16 +41,17 @@ export class ColorsViewProvider implements vscode.WebviewViewProvider {
       localResourceRoots: [this._extensionUri]
     };
 
-    const refresh = async () => {
-      webviewView.webview.html = await this.buildHtmlForWebview(webviewView.webview);
-    };
+    const refresh = () => this.update(webviewView.webview);
     await refresh();
-    this.blackboard.on('activeMapNameChange', refresh);
+    this.blackboard.on('activeMapChange', refresh);
 
-    webviewView.webview.onDidReceiveMessage((data) => {
+    webviewView.webview.onDidReceiveMessage((data: unknown) => {
+      if (!isFromMapTilesMessage(data)) {
+        return;
+      }
       switch (data.type) {
-        case 'colorSelected': {
-          vscode.window.activeTextEditor?.insertSnippet(new vscode.SnippetString(`#${data.value}`));
+        case 'selectTiles': {
+          this.blackboard.brush = { width: data.width, height: data.height, tileIds: data.tileIds };
           break;
         }
       }
@@ -49,44 +59,117 @@ export class ColorsViewProvider implements vscode.WebviewViewProvider {
 
     // Make sure we get rid of the listener when our editor is closed.
     webviewView.onDidDispose(() => {
-      this.blackboard.removeListener('activeMapNameChange', refresh);
+      this.blackboard.removeListener('activeMapChange', refresh);
     });
   }
 
   /**
-   * Get the static html used for the editor webviews.
+   * Shows the tileset of the focused map.
+   * The view is only rebuilt for a map of another project. Another tileset of the same project is loaded in place.
    */
-  private async buildHtmlForWebview(webview: vscode.Webview): Promise<string> {
-    const webviewUri = vscode.Uri.joinPath(this._extensionUri, 'map-tile', 'dist');
+  private async update(webview: vscode.Webview) {
+    const request = ++this.updateRequest;
+    try {
+      if (!this.blackboard.activeMapUri) {
+        this.shown = undefined;
+        webview.html = '';
+        return;
+      }
+      const { project, mapFileUri, tilesetId, tilesetUris } = await this.readActiveTileset(webview);
+      if (request !== this.updateRequest) return;
+      const shown = this.shown;
+      const dataUri = project.dataUri.toString();
+      if (shown?.dataUri !== dataUri) {
+        const html = await this.buildHtmlForWebview(webview, project, mapFileUri, tilesetUris);
+        if (request !== this.updateRequest) return;
+        webview.html = html;
+      } else if (shown.tilesetId !== tilesetId || shown.tilesetUris.join() !== tilesetUris.join()) {
+        const message: ToMapTilesMessage = { type: 'reloadTileset', tilesetId, tilesetNames: tilesetUris };
+        webview.postMessage(message);
+      }
+      this.shown = { dataUri, tilesetId, tilesetUris };
+    } catch (error) {
+      if (request !== this.updateRequest) return;
+      this.shown = undefined;
+      webview.html = buildPlaceholderHtml(
+        `The tileset of ${this.blackboard.activeMapName} cannot be shown: ${error instanceof Error ? error.message : error}`
+      );
+    }
+  }
 
-    if (!vscode.workspace.workspaceFolders || !this.blackboard.activeMapName) {
-      return '';
+  /**
+   * Ask the view to load the tileset again after `Tilesets.json` or one of its images is changed on disk.
+   * The view keeps its tab and its selection.
+   */
+  private async reloadTileset(uri: vscode.Uri) {
+    const view = this._view;
+    if (!view) return;
+    try {
+      const { tilesetId, tileset, tilesetUris } = await this.readActiveTileset(view.webview);
+      if (isTilesetFileUsed(uri, tileset.tilesetNames)) {
+        if (this.shown) {
+          this.shown = { ...this.shown, tilesetId, tilesetUris };
+        }
+        const message: ToMapTilesMessage = { type: 'reloadTileset', tilesetId, tilesetNames: tilesetUris };
+        view.webview.postMessage(message);
+      }
+    } catch {
+      // The view is rebuilt when another map is focused
+    }
+  }
+
+  /**
+   * Read the tileset of the focused map, with the webview URIs of its images.
+   */
+  private async readActiveTileset(webview: vscode.Webview) {
+    const mapFileUri = this.blackboard.activeMapUri;
+    const project = mapFileUri && (await findProject(mapFileUri));
+    if (!mapFileUri || !project) {
+      throw new Error('No map is focused');
     }
     const textDecoder = new TextDecoder();
 
-    const dataFolderUri = vscode.Uri.joinPath(vscode.workspace.workspaceFolders[0].uri, 'data');
-    const imgFolderUri = vscode.Uri.joinPath(vscode.workspace.workspaceFolders[0].uri, 'img', 'tilesets');
+    const dataFolderUri = project.dataUri;
+    const imgFolderUri = vscode.Uri.joinPath(project.imgUri, 'tilesets');
 
     const tilesetsJson = JSON.parse(
       textDecoder.decode(await vscode.workspace.fs.readFile(vscode.Uri.joinPath(dataFolderUri, 'Tilesets.json')))
     );
+    // The open map may have a tileset which is not saved yet
+    const openDocument = vscode.workspace.textDocuments.find((doc) => doc.uri.toString() === mapFileUri.toString());
     const mapJson = JSON.parse(
-      textDecoder.decode(
-        await vscode.workspace.fs.readFile(vscode.Uri.joinPath(dataFolderUri, this.blackboard.activeMapName))
-      )
+      openDocument ? openDocument.getText() : textDecoder.decode(await vscode.workspace.fs.readFile(mapFileUri))
     );
-    const tileset = tilesetsJson[mapJson.tilesetId];
+    const tileset: { tilesetNames: Array<string> } | undefined = tilesetsJson[mapJson.tilesetId];
+    if (!tileset) {
+      throw new Error(`Tileset ${mapJson.tilesetId} does not exist in Tilesets.json.`);
+    }
     const tilesetUris = tileset.tilesetNames.map((value: string) =>
       value ? `${webview.asWebviewUri(vscode.Uri.joinPath(imgFolderUri, `${value}.png`))}` : ''
     );
+    return { project, mapFileUri, tilesetId: mapJson.tilesetId as number, tileset, tilesetUris };
+  }
 
-    const tilesetsUri = webview.asWebviewUri(vscode.Uri.joinPath(dataFolderUri, 'Tilesets.json'));
-    const mapUri = webview.asWebviewUri(vscode.Uri.joinPath(dataFolderUri, this.blackboard.activeMapName));
+  /**
+   * Get the static html used for the editor webviews.
+   */
+  private async buildHtmlForWebview(
+    webview: vscode.Webview,
+    project: RpgMakerProject,
+    mapFileUri: vscode.Uri,
+    tilesetUris: Array<string>
+  ): Promise<string> {
+    const webviewUri = vscode.Uri.joinPath(this._extensionUri, 'map-tile', 'dist');
+    const textDecoder = new TextDecoder();
+
+    const tilesetsUri = webview.asWebviewUri(vscode.Uri.joinPath(project.dataUri, 'Tilesets.json'));
+    const mapUri = webview.asWebviewUri(mapFileUri);
 
     const config = {
       tilesets: `${tilesetsUri}`,
       map: `${mapUri}`,
-      tilesetNames: tilesetUris
+      tilesetNames: tilesetUris,
+      tileSize: await readTileSize(project)
     };
 
     const content = await vscode.workspace.fs.readFile(vscode.Uri.joinPath(webviewUri, 'index.html'));
@@ -96,21 +179,14 @@ export class ColorsViewProvider implements vscode.WebviewViewProvider {
     // Use a nonce to whitelist which scripts can be run
     const nonce = getNonce();
 
-    return this.fixLinks(html, webviewUri, webview);
+    return fixLinks(html, webviewUri, webview);
   }
+}
 
-  private fixLinks(document: string, documentUri: vscode.Uri, webview: vscode.Webview): string {
-    return document.replace(
-      new RegExp('((?:src|href)=[\'"])(.*?)([\'"])', 'gmi'),
-      (subString: string, p1: string, p2: string, p3: string): string => {
-        const lower = p2.toLowerCase();
-        if (p2.startsWith('#') || lower.startsWith('http://') || lower.startsWith('https://')) {
-          return subString;
-        }
-        const newUri = vscode.Uri.joinPath(documentUri, p2);
-        const newUrl = [p1, webview.asWebviewUri(newUri), p3].join('');
-        return newUrl;
-      }
-    );
-  }
+/**
+ * Returns a page showing only the text, when the tileset cannot be shown.
+ */
+function buildPlaceholderHtml(text: string) {
+  const escaped = text.replace(/[&<>"]/g, (c) => `&#${c.charCodeAt(0)};`);
+  return `<!DOCTYPE html><html><body><p>${escaped}</p></body></html>`;
 }
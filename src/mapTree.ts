@@ -0,0 +1,345 @@
+import * as vscode from 'vscode';
+import { Blackboard } from './blackboard';
+import { RMMapEditorProvider } from './editor';
+import {
+  addMapInfo,
+  allocateMapId,
+  createMap,
+  getChildInfos,
+  getMapFileName,
+  getSubtreeIds,
+  moveMapInfo,
+  renumberMapInfos,
+  reparentMapInfo,
+  type MapInfo
+} from './mapInfos';
+import { fileExists, findProject } from './project';
+import { stringifyMap, stringifyRecords } from './serializer';
+
+const MIME_TYPE = 'application/vnd.code.tree.rpgmaker.maptree';
+
+/**
+ * The Maps view of the RPG Maker panel, showing the tree of `MapInfos.json`.
+ * Maps are opened in the map editor, and can be created, renamed, moved, duplicated and deleted.
+ */
+export class MapTreeProvider implements vscode.TreeDataProvider<MapInfo>, vscode.TreeDragAndDropController<MapInfo> {
+  public static readonly viewType = 'rpgmaker.mapTree';
+
+  public static register(context: vscode.ExtensionContext, blackboard: Blackboard): vscode.Disposable {
+    const provider = new MapTreeProvider(blackboard);
+    const treeView = vscode.window.createTreeView(MapTreeProvider.viewType, {
+      treeDataProvider: provider,
+      dragAndDropController: provider,
+      showCollapseAll: true
+    });
+
+    // Follow the focused map editor, showing the maps of its project
+    const revealActiveMap = async () => {
+      const mapUri = blackboard.activeMapUri;
+      if (mapUri && !provider.isShowingFolderOf(mapUri)) {
+        await provider.reload();
+      }
+      const id = Number(/^Map(\d+)\.json$/.exec(blackboard.activeMapName)?.[1]);
+      const info = provider.infos[id];
+      if (info && treeView.visible) {
+        await treeView.reveal(info, { select: true, focus: false });
+      }
+    };
+    const followActiveMap = () => {
+      revealActiveMap().catch(() => {
+        // The tree is left as it is, e.g. when the map is no longer in it
+      });
+    };
+    blackboard.on('activeMapChange', followActiveMap);
+
+    const watcher = vscode.workspace.createFileSystemWatcher('**/data/MapInfos.json');
+    const reload = () => provider.reload();
+    const disposables = [
+      treeView,
+      watcher,
+      watcher.onDidChange(reload),
+      watcher.onDidCreate(reload),
+      watcher.onDidDelete(reload),
+      treeView.onDidExpandElement((e) => provider.setExpanded(e.element, true)),
+      treeView.onDidCollapseElement((e) => provider.setExpanded(e.element, false)),
+      vscode.commands.registerCommand('rpgmaker.mapTree.refresh', reload),
+      vscode.commands.registerCommand('rpgmaker.mapTree.open', (info: MapInfo) => provider.open(info)),
+      vscode.commands.registerCommand('rpgmaker.mapTree.newMap', (info?: MapInfo) => provider.newMap(info)),
+      vscode.commands.registerCommand('rpgmaker.mapTree.rename', (info: MapInfo) => provider.rename(info)),
+      vscode.commands.registerCommand('rpgmaker.mapTree.moveUp', (info: MapInfo) => provider.move(info, -1)),
+      vscode.commands.registerCommand('rpgmaker.mapTree.moveDown', (info: MapInfo) => provider.move(info, 1)),
+      vscode.commands.registerCommand('rpgmaker.mapTree.duplicate', (info: MapInfo) => provider.duplicate(info)),
+      vscode.commands.registerCommand('rpgmaker.mapTree.delete', (info: MapInfo) => provider.delete(info)),
+      { dispose: () => blackboard.removeListener('activeMapChange', followActiveMap) }
+    ];
+    provider.reload();
+    return vscode.Disposable.from(...disposables);
+  }
+
+  public readonly dropMimeTypes = [MIME_TYPE];
+  public readonly dragMimeTypes = [MIME_TYPE];
+
+  private readonly changeEmitter = new vscode.EventEmitter<MapInfo | undefined>();
+  public readonly onDidChangeTreeData = this.changeEmitter.event;
+
+  /** The content of `MapInfos.json`, indexed by map ID */
+  private infos: Array<MapInfo | null> = [];
+  /** The line ending of `MapInfos.json`, kept when it is written */
+  private eol = '\n';
+  /** The `data` folder of the project whose maps are shown */
+  private dataUri: vscode.Uri | undefined;
+  /** Whether `MapInfos.json` was read. Otherwise the maps are not changed, so that the file is not overwritten */
+  private loaded = false;
+
+  constructor(private readonly blackboard: Blackboard) {}
+
+  public getTreeItem(info: MapInfo): vscode.TreeItem {
+    const hasChildren = getChildInfos(this.infos, info.id).length > 0;
+    const item = new vscode.TreeItem(
+      info.name,
+      !hasChildren
+        ? vscode.TreeItemCollapsibleState.None
+        : info.expanded
+          ? vscode.TreeItemCollapsibleState.Expanded
+          : vscode.TreeItemCollapsibleState.Collapsed
+    );
+    item.id = `${info.id}`;
+    item.description = getMapFileName(info.id).replace('.json', '');
+    item.iconPath = new vscode.ThemeIcon('map');
+    item.contextValue = 'map';
+    item.command = { command: 'rpgmaker.mapTree.open', title: 'Open Map', arguments: [info] };
+    return item;
+  }
+
+  public getChildren(info?: MapInfo): Array<MapInfo> {
+    return getChildInfos(this.infos, info?.id ?? 0);
+  }
+
+  public getParent(info: MapInfo): MapInfo | undefined {
+    return this.infos[info.parentId] ?? undefined;
+  }
+
+  public handleDrag(source: ReadonlyArray<MapInfo>, dataTransfer: vscode.DataTransfer) {
+    dataTransfer.set(MIME_TYPE, new vscode.DataTransferItem(source.map((info) => info.id)));
+  }
+
+  /**
+   * Dropping maps on a map moves them under it. Dropping them on the empty space moves them to the top level.
+   */
+  public async handleDrop(target: MapInfo | undefined, dataTransfer: vscode.DataTransfer) {
+    const ids: Array<number> | undefined = dataTransfer.get(MIME_TYPE)?.value;
+    if (!ids || !this.checkWritable()) return;
+    let moved = false;
+    for (const id of ids) {
+      moved = reparentMapInfo(this.infos, id, target?.id ?? 0) || moved;
+    }
+    if (moved) {
+      await this.save();
+    }
+  }
+
+  /**
+   * Reads `MapInfos.json` again and refreshes the tree.
+   */
+  public async reload() {
+    this.dataUri = (await findProject(this.blackboard.activeMapUri))?.dataUri;
+    const uri = this.getDataUri('MapInfos.json');
+    try {
+      if (!uri) throw new Error('No workspace folder is open');
+      const text = new TextDecoder().decode(await vscode.workspace.fs.readFile(uri));
+      const infos = JSON.parse(text);
+      if (!Array.isArray(infos)) throw new Error('MapInfos.json is not a list of maps');
+      this.infos = infos;
+      this.eol = text.includes('\r\n') ? '\r\n' : '\n';
+      this.loaded = true;
+    } catch {
+      this.infos = [];
+      this.loaded = false;
+    }
+    this.changeEmitter.fire(undefined);
+  }
+
+  public setExpanded(info: MapInfo, expanded: boolean) {
+    // Written with the next change, as RPG Maker does when the project is saved
+    const current = this.infos[info.id];
+    if (current) {
+      current.expanded = expanded;
+    }
+  }
+
+  public async open(info: MapInfo) {
+    const uri = this.getDataUri(getMapFileName(info.id));
+    if (uri) {
+      await vscode.commands.executeCommand('vscode.openWith', uri, RMMapEditorProvider.viewType);
+    }
+  }
+
+  /**
+   * Creates an empty map under the selected map, or at the top level.
+   * It uses the tileset of the map it is created under.
+   */
+  public async newMap(parent?: MapInfo) {
+    if (!this.checkWritable()) return;
+    const id = allocateMapId(this.infos, await this.readMapFileIds());
+    let tilesetId = 1;
+    if (parent) {
+      tilesetId = (await this.readMap(parent.id))?.tilesetId ?? tilesetId;
+    }
+    await this.writeMap(id, stringifyMap(createMap(tilesetId), this.eol));
+    const info = addMapInfo(this.infos, id, `MAP${String(id).padStart(3, '0')}`, parent?.id ?? 0);
+    const parentInfo = parent && this.infos[parent.id];
+    if (parentInfo) {
+      parentInfo.expanded = true;
+    }
+    await this.save();
+    await this.open(info);
+  }
+
+  public async rename(info: MapInfo) {
+    const name = await vscode.window.showInputBox({
+      prompt: 'Map name',
+      value: info.name,
+      validateInput: (value) => (value.trim() ? undefined : 'The name cannot be empty.')
+    });
+    const current = this.infos[info.id];
+    if (name === undefined || !current || name.trim() === current.name || !this.checkWritable()) return;
+    current.name = name.trim();
+    await this.save();
+  }
+
+  public async move(info: MapInfo, offset: number) {
+    if (this.checkWritable() && moveMapInfo(this.infos, info.id, offset)) {
+      await this.save();
+    }
+  }
+
+  /**
+   * Copies the map, without the maps under it, next to it.
+   */
+  public async duplicate(info: MapInfo) {
+    if (!this.checkWritable()) return;
+    const id = allocateMapId(this.infos, await this.readMapFileIds());
+    const source = this.getDataUri(getMapFileName(info.id));
+    const target = this.getDataUri(getMapFileName(id));
+    if (!source || !target) return;
+    // The ID avoids the files listed before, but another one may have been created since
+    if (await fileExists(target)) {
+      vscode.window.showErrorMessage(`${getMapFileName(id)} already exists.`);
+      return;
+    }
+    let content: Uint8Array;
+    try {
+      content = await vscode.workspace.fs.readFile(source);
+    } catch {
+      vscode.window.showErrorMessage(`Could not read ${getMapFileName(info.id)}.`);
+      return;
+    }
+    await vscode.workspace.fs.writeFile(target, content);
+    addMapInfo(this.infos, id, info.name, info.parentId, info.id);
+    await this.save();
+  }
+
+  /**
+   * Deletes the map and the maps under it, after confirmation. The map files are moved to the trash,
+   * and the remaining maps are renumbered.
+   */
+  public async delete(info: MapInfo) {
+    if (!this.checkWritable()) return;
+    const ids = getSubtreeIds(this.infos, info.id);
+    const message =
+      ids.length > 1 ? `Delete "${info.name}" and the ${ids.length - 1} map(s) under it?` : `Delete "${info.name}"?`;
+    const answer = await vscode.window.showWarningMessage(message, { modal: true }, 'Delete');
+    if (answer !== 'Delete' || !this.checkWritable()) return;
+
+    for (const id of ids) {
+      const uri = this.getDataUri(getMapFileName(id));
+      try {
+        if (uri) await vscode.workspace.fs.delete(uri, { useTrash: true });
+      } catch {
+        // The entry is removed even if its file is already missing
+      }
+      this.infos[id] = null;
+    }
+    renumberMapInfos(this.infos);
+    await this.save();
+  }
+
+  /**
+   * Whether the tree shows the maps of the folder containing the file.
+   */
+  public isShowingFolderOf(uri: vscode.Uri) {
+    return !!this.dataUri && vscode.Uri.joinPath(uri, '..').toString() === this.dataUri.toString();
+  }
+
+  /**
+   * Returns the URI of a file of the `data` folder of the project.
+   */
+  private getDataUri(fileName: string) {
+    return this.dataUri && vscode.Uri.joinPath(this.dataUri, fileName);
+  }
+
+  /**
+   * Whether `MapInfos.json` can be written. Otherwise tells why not.
+   * It is not written when it could not be read, or when it has unsaved changes in an editor, as they would be lost.
+   */
+  private checkWritable() {
+    const uri = this.getDataUri('MapInfos.json');
+    if (!uri || !this.loaded) {
+      vscode.window.showErrorMessage('MapInfos.json could not be read, so the maps cannot be changed.');
+      return false;
+    }
+    const document = vscode.workspace.textDocuments.find((doc) => doc.uri.toString() === uri.toString());
+    if (document?.isDirty) {
+      vscode.window.showErrorMessage('MapInfos.json has unsaved changes. Save or revert it before changing the maps.');
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Returns the IDs of the map files in the `data` folder, including the ones missing in `MapInfos.json`.
+   */
+  private async readMapFileIds() {
+    const ids = new Set<number>();
+    if (!this.dataUri) return ids;
+    try {
+      for (const [fileName] of await vscode.workspace.fs.readDirectory(this.dataUri)) {
+        const match = /^Map(\d+)\.json$/.exec(fileName);
+        if (match) {
+          ids.add(Number(match[1]));
+        }
+      }
+    } catch {
+      // Only the entries of MapInfos.json are avoided
+    }
+    return ids;
+  }
+
+  private async readMap(id: number): Promise<{ tilesetId?: number } | undefined> {
+    const uri = this.getDataUri(getMapFileName(id));
+    try {
+      if (!uri) return undefined;
+      const content = await vscode.workspace.fs.readFile(uri);
+      return JSON.parse(new TextDecoder().decode(content));
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async writeMap(id: number, text: string) {
+    const uri = this.getDataUri(getMapFileName(id));
+    if (uri) {
+      await vscode.workspace.fs.writeFile(uri, new TextEncoder().encode(text));
+    }
+  }
+
+  /**
+   * Writes `MapInfos.json` in RPG Maker's layout, and refreshes the tree.
+   */
+  private async save() {
+    const uri = this.getDataUri('MapInfos.json');
+    if (!uri) return;
+    await vscode.workspace.fs.writeFile(uri, new TextEncoder().encode(stringifyRecords(this.infos, this.eol)));
+    this.changeEmitter.fire(undefined);
+  }
+}
@@ -0,0 +1,111 @@
+import * as vscode from 'vscode';
+
+/** The RPG Maker a project is made with */
+export type ProjectKind = 'MV' | 'MZ';
+
+/**
+ * An RPG Maker project of the workspace. `rootUri` is the folder holding `data/` and `img/`:
+ * the project folder, or its `www/` folder in the layout of a deployed MV game.
+ */
+export type RpgMakerProject = {
+  kind: ProjectKind;
+  rootUri: vscode.Uri;
+  /** The folder of the database and the maps, i.e. `data` */
+  dataUri: vscode.Uri;
+  /** The folder of the images, i.e. `img` */
+  imgUri: vscode.Uri;
+};
+
+/** The size of a tile in pixels in MV, and the default one in MZ */
+export const DEFAULT_TILE_SIZE = 48;
+
+/** The files telling MZ and MV projects apart, checked in this order */
+const PROJECT_MARKERS: Array<[ProjectKind, Array<string>]> = [
+  ['MZ', ['game.rmmzproject']],
+  ['MZ', ['js', 'rmmz_core.js']],
+  ['MV', ['game.rpgproject']],
+  ['MV', ['js', 'rpg_core.js']]
+];
+
+/**
+ * Whether the file or folder exists.
+ */
+export async function fileExists(uri: vscode.Uri) {
+  try {
+    await vscode.workspace.fs.stat(uri);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Returns the RPG Maker of the project in the folder, or `undefined` if the folder is not a project.
+ */
+async function detectProjectKind(rootUri: vscode.Uri): Promise<ProjectKind | undefined> {
+  for (const [kind, marker] of PROJECT_MARKERS) {
+    if (await fileExists(vscode.Uri.joinPath(rootUri, ...marker))) {
+      return kind;
+    }
+  }
+  return undefined;
+}
+
+function createProject(kind: ProjectKind, rootUri: vscode.Uri): RpgMakerProject {
+  return {
+    kind,
+    rootUri,
+    dataUri: vscode.Uri.joinPath(rootUri, 'data'),
+    imgUri: vscode.Uri.joinPath(rootUri, 'img')
+  };
+}
+
+/**
+ * Finds the project containing the file, e.g. a map, or the project of the first workspace folder.
+ * The folders from the file up to its workspace folder are searched, then the `www/` folder of the workspace folder.
+ * A workspace folder without any project file is taken as an MV project, as RPG Maker may not have created them.
+ */
+export async function findProject(uri?: vscode.Uri): Promise<RpgMakerProject | undefined> {
+  const fileFolder = uri && vscode.workspace.getWorkspaceFolder(uri);
+  const workspaceFolder = fileFolder ?? vscode.workspace.workspaceFolders?.[0];
+  if (!workspaceFolder) {
+    return undefined;
+  }
+  const roots: Array<vscode.Uri> = [];
+  if (uri && fileFolder) {
+    let folder = uri;
+    while (folder.path.length > workspaceFolder.uri.path.length) {
+      folder = vscode.Uri.joinPath(folder, '..');
+      roots.push(folder);
+    }
+  } else {
+    roots.push(workspaceFolder.uri);
+  }
+  roots.push(vscode.Uri.joinPath(workspaceFolder.uri, 'www'));
+
+  for (const rootUri of roots) {
+    const kind = await detectProjectKind(rootUri);
+    if (kind) {
+      return createProject(kind, rootUri);
+    }
+  }
+  return createProject('MV', workspaceFolder.uri);
+}
+
+/**
+ * Returns the size of a tile in pixels. MZ projects may change it with `tileSize` of `System.json`.
+ */
+export async function readTileSize(project: RpgMakerProject) {
+  if (project.kind !== 'MZ') {
+    return DEFAULT_TILE_SIZE;
+  }
+  try {
+    const system = JSON.parse(
+      new TextDecoder().decode(await vscode.workspace.fs.readFile(vscode.Uri.joinPath(project.dataUri, 'System.json')))
+    );
+    const tileSize = system.tileSize;
+    return Number.isInteger(tileSize) && tileSize > 0 ? (tileSize as number) : DEFAULT_TILE_SIZE;
+  } catch {
+    return DEFAULT_TILE_SIZE;
+  }
+}
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { getMinimalReplacement, stringifyMap, stringifyRecords } from './serializer';
+
+describe('stringifyRecords', () => {
+  it('writes one record per line', () => {
+    expect(stringifyRecords([null, { id: 1, name: 'Field' }])).toBe('[\nnull,\n{"id":1,"name":"Field"}\n]');
+    expect(stringifyRecords([], '\r\n')).toBe('[\r\n]');
+  });
+});
+
+describe('stringifyMap', () => {
+  it('writes the properties, the data and each event on their own lines', () => {
+    const map = { autoplayBgm: false, width: 2, data: [0, 1], events: [null, { id: 1, x: 0, y: 0 }] };
+    expect(stringifyMap(map, '\r\n')).toBe(
+      '{\r\n"autoplayBgm":false,"width":2,\r\n"data":[0,1],\r\n"events":[\r\nnull,\r\n{"id":1,"x":0,"y":0}\r\n]\r\n}'
+    );
+  });
+
+  it('reproduces the map files of RPG Maker', () => {
+    const text = '{\n"autoplayBgm":false,"height":1,\n"data":[2816],\n"events":[\nnull\n]\n}';
+    expect(stringifyMap(JSON.parse(text))).toBe(text);
+  });
+});
+
+describe('getMinimalReplacement', () => {
+  it('replaces only the text between the common start and end', () => {
+    expect(getMinimalReplacement('"data":[0,1,2]', '"data":[0,5,2]')).toEqual({ start: 10, end: 11, text: '5' });
+    expect(getMinimalReplacement('abc', 'abxc')).toEqual({ start: 2, end: 2, text: 'x' });
+    expect(getMinimalReplacement('aaa', 'aa')).toEqual({ start: 2, end: 3, text: '' });
+    expect(getMinimalReplacement('same', 'same')).toBeUndefined();
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Serializers reproducing the layout RPG Maker MV/MZ writes its data files in.
+ *
+ * A map file looks like:
+ * ```
+ * {
+ * "autoplayBgm":false,...,"width":17,
+ * "data":[...],
+ * "events":[
+ * null,
+ * {"id":1,...}
+ * ]
+ * }
+ * ```
+ * And database files such as `Tilesets.json` are arrays with one record per line.
+ */
+
+/**
+ * Serializes an array with one item per line.
+ */
+export function stringifyRecords(records: Array<unknown>, eol = '\n'): string {
+  if (records.length === 0) {
+    return `[${eol}]`;
+  }
+  return `[${eol}${records.map((record) => JSON.stringify(record)).join(`,${eol}`)}${eol}]`;
+}
+
+/**
+ * Serializes a map, i.e. the content of `MapXXX.json`.
+ */
+export function stringifyMap(map: Record<string, unknown>, eol = '\n'): string {
+  const { data, events, ...rest } = map;
+  const lines = [];
+  const header = JSON.stringify(rest).slice(1, -1);
+  if (header.length > 0) {
+    lines.push(`${header},`);
+  }
+  lines.push(`"data":${JSON.stringify(data ?? [])},`);
+  lines.push(`"events":${stringifyRecords((events ?? []) as Array<unknown>, eol)}`);
+  return `{${eol}${lines.join(eol)}${eol}}`;
+}
+
+/**
+ * A replacement of the text between `start` and `end` of the old text.
+ */
+export type TextReplacement = {
+  start: number;
+  end: number;
+  text: string;
+};
+
+/**
+ * Computes the smallest single replacement that turns `oldText` into `newText`.
+ * Returns `undefined` if both are the same.
+ */
+export function getMinimalReplacement(oldText: string, newText: string): TextReplacement | undefined {
+  let start = 0;
+  while (start < oldText.length && start < newText.length && oldText[start] === newText[start]) {
+    start++;
+  }
+  let oldEnd = oldText.length;
+  let newEnd = newText.length;
+  while (oldEnd > start && newEnd > start && oldText[oldEnd - 1] === newText[newEnd - 1]) {
+    oldEnd--;
+    newEnd--;
+  }
+  if (start === oldEnd && start === newEnd) {
+    return undefined;
+  }
+  return { start, end: oldEnd, text: newText.substring(start, newEnd) };
+}
@@ -0,0 +1,128 @@
+import * as vscode from 'vscode';
+import { createEditQueue, fixLinks, replaceDocumentText } from './util';
+import { stringifyRecords } from './serializer';
+import { findProject, readTileSize } from './project';
+import { isFromTilesetEditorMessage, type TileFlagChange, type ToTilesetEditorMessage } from '../rm-common/protocol';
+
+/**
+ * A tileset of `Tilesets.json`. The rest of its properties are written as they are.
+ */
+type Tileset = {
+  id: number;
+  flags: Array<number>;
+};
+
+/**
+ * Edits the tile flags of `data/Tilesets.json`: passage, ladder, bush, counter, damage floor and terrain tags.
+ */
+export class RMTilesetEditorProvider implements vscode.CustomTextEditorProvider {
+  public static register(context: vscode.ExtensionContext): vscode.Disposable {
+    const provider = new RMTilesetEditorProvider(context);
+    return vscode.window.registerCustomEditorProvider(RMTilesetEditorProvider.viewType, provider);
+  }
+
+  private static readonly viewType = 'rpgmaker.tilesetEditor';
+
+  constructor(private readonly context: vscode.ExtensionContext) {}
+
+  /**
+   * Called when our custom editor is opened.
+   */
+  public async resolveCustomTextEditor(
+    document: vscode.TextDocument,
+    webviewPanel: vscode.WebviewPanel,
+    _token: vscode.CancellationToken
+  ): Promise<void> {
+    webviewPanel.webview.options = {
+      enableScripts: true
+    };
+    webviewPanel.webview.html = await this.buildHtmlForWebview(webviewPanel.webview, document);
+
+    function updateWebview() {
+      const message: ToTilesetEditorMessage = {
+        type: 'update',
+        text: document.getText()
+      };
+      webviewPanel.webview.postMessage(message);
+    }
+
+    // The text document is the model, as in the map editor
+    const changeDocumentSubscription = vscode.workspace.onDidChangeTextDocument((e) => {
+      if (e.document.uri.toString() === document.uri.toString()) {
+        updateWebview();
+      }
+    });
+
+    webviewPanel.onDidDispose(() => {
+      changeDocumentSubscription.dispose();
+    });
+
+    // Edits are applied one after another, so each of them sees the result of the previous one.
+    const queueEdit = createEditQueue();
+
+    webviewPanel.webview.onDidReceiveMessage((e: unknown) => {
+      // Messages which do not follow the protocol are ignored
+      if (!isFromTilesetEditorMessage(e)) {
+        return;
+      }
+      switch (e.type) {
+        case 'ready':
+          updateWebview();
+          return;
+        case 'editFlags':
+          queueEdit(() => this.editFlags(document, e.tilesetId, e.changes));
+          return;
+      }
+    });
+  }
+
+  /**
+   * Get the static html used for the editor webviews.
+   */
+  private async buildHtmlForWebview(webview: vscode.Webview, document: vscode.TextDocument): Promise<string> {
+    const webviewUri = vscode.Uri.joinPath(this.context.extensionUri, 'tileset-editor', 'dist');
+
+    const project = await findProject(document.uri);
+    if (!project) {
+      return '';
+    }
+    const textDecoder = new TextDecoder();
+    const imgFolderUri = vscode.Uri.joinPath(project.imgUri, 'tilesets');
+
+    // The tilesets themselves are sent with the `update` message, as they may not be saved yet
+    const config = {
+      tilesetImages: `${webview.asWebviewUri(imgFolderUri)}`,
+      tileSize: await readTileSize(project)
+    };
+
+    const content = await vscode.workspace.fs.readFile(vscode.Uri.joinPath(webviewUri, 'index.html'));
+    let html = textDecoder.decode(content);
+    html = html.replace('"{{rpgmaker-asset-path}}"', `'${JSON.stringify(config)}'`);
+
+    return fixLinks(html, webviewUri, webview);
+  }
+
+  /**
+   * Apply the flag changes of a tileset made in the webview to the document, as one edit.
+   */
+  private editFlags(document: vscode.TextDocument, tilesetId: number, changes: Array<TileFlagChange>) {
+    let tilesets: Array<Tileset | null>;
+    try {
+      tilesets = JSON.parse(document.getText());
+    } catch {
+      throw new Error('Could not get document as json. Content is not valid json');
+    }
+    const tileset = tilesets[tilesetId];
+    if (!tileset) {
+      return Promise.resolve(false);
+    }
+    for (const { tileId, flags } of changes) {
+      while (tileset.flags.length <= tileId) {
+        tileset.flags.push(0);
+      }
+      tileset.flags[tileId] = flags;
+    }
+    const eol = document.eol === vscode.EndOfLine.CRLF ? '\r\n' : '\n';
+    return replaceDocumentText(document, stringifyRecords(tilesets, eol));
+  }
+}
@@ -1,3 +1,7 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { getMinimalReplacement } from './serializer';
+
 export function getNonce() {
   let text = '';
   const possible = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
@@ -6,3 +10,86 @@ export function getNonce() {
   }
   return text;
 }
+
+/**
+ * Rewrites the relative `src` and `href` links of a webview's html to webview URIs under `documentUri`.
+ */
+export function fixLinks(document: string, documentUri: vscode.Uri, webview: vscode.Webview): string {
+  return document.replace(
+    new RegExp('((?:src|href)=[\'"])(.*?)([\'"])', 'gmi'),
+    (subString: string, p1: string, p2: string, p3: string): string => {
+      const lower = p2.toLowerCase();
+      if (p2.startsWith('#') || lower.startsWith('http://') || lower.startsWith('https://')) {
+        return subString;
+      }
+      const newUri = vscode.Uri.joinPath(documentUri, p2);
+      const newUrl = [p1, webview.asWebviewUri(newUri), p3].join('');
+      return newUrl;
+    }
+  );
+}
+
+/**
+ * Replaces the text of the document with `newText`.
+ * Only the changed part of the text is replaced, so that each edit is a small undo step and a small diff.
+ */
+export function replaceDocumentText(document: vscode.TextDocument, newText: string) {
+  const replacement = getMinimalReplacement(document.getText(), newText);
+  if (!replacement) {
+    return Promise.resolve(true);
+  }
+
+  const edit = new vscode.WorkspaceEdit();
+  edit.replace(
+    document.uri,
+    new vscode.Range(document.positionAt(replacement.start), document.positionAt(replacement.end)),
+    replacement.text
+  );
+
+  return vscode.workspace.applyEdit(edit);
+}
+
+/**
+ * Returns a function queuing the edits of a document, so that each of them sees the result of the previous one.
+ * A failed edit, e.g. of a document which is not valid JSON, is reported and the next edits are still applied.
+ */
+export function createEditQueue() {
+  let pendingEdit: Promise<unknown> = Promise.resolve();
+  return (edit: () => unknown) => {
+    pendingEdit = pendingEdit
+      .then(edit)
+      .then((applied) => {
+        // `applyEdit` resolves with false when the edit is rejected
+        if (applied === false) {
+          throw new Error('The edit was not applied');
+        }
+      })
+      .catch((error: unknown) => {
+        const reason = error instanceof Error ? error.message : String(error);
+        vscode.window.showErrorMessage(`Could not edit the document: ${reason}`);
+      });
+  };
+}
+
+/**
+ * Watches `data/Tilesets.json` and the images in `img/tilesets`, which the map editor and the Map Tiles view show.
+ */
+export function watchTilesetFiles(listener: (uri: vscode.Uri) => void): vscode.Disposable {
+  const watchers = [
+    vscode.workspace.createFileSystemWatcher('**/data/Tilesets.json'),
+    vscode.workspace.createFileSystemWatcher('**/img/tilesets/*.png')
+  ];
+  return vscode.Disposable.from(
+    ...watchers,
+    ...watchers.flatMap((watcher) => [watcher.onDidChange(listener), watcher.onDidCreate(listener)])
+  );
+}
+
+/**
+ * Whether a change of the file affects a map using a tileset with these images:
+ * any change of `Tilesets.json`, or a change of one of the images.
+ */
+export function isTilesetFileUsed(uri: vscode.Uri, tilesetNames: Array<string>) {
+  const fileName = path.posix.basename(uri.path);
+  return fileName === 'Tilesets.json' || tilesetNames.some((name) => name && `${name}.png` === fileName);
+}
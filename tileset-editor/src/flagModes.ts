@@ -0,0 +1,69 @@
+import { getTerrainTag, TileFlag, Tilemap } from 'rm-common';
+
+/**
+ * The settings edited by clicking tiles, as the buttons in the Tilesets tab of RPG Maker's database.
+ */
+export type FlagMode = 'passage' | 'passage4' | 'ladder' | 'bush' | 'counter' | 'damage' | 'terrainTag';
+
+/** The bit toggled by each of the modes editing a single bit */
+export const FLAG_MODE_BITS = {
+  ladder: TileFlag.Ladder,
+  bush: TileFlag.Bush,
+  counter: TileFlag.Counter,
+  damage: TileFlag.Damage
+} as const;
+
+const BLOCK_ALL = TileFlag.BlockDown | TileFlag.BlockLeft | TileFlag.BlockRight | TileFlag.BlockUp;
+const TERRAIN_TAG_MASK = 0xf000;
+const MAX_TERRAIN_TAG = 7;
+
+/**
+ * Returns the tiles sharing their flags with the tile. The 48 shapes of an autotile are set together.
+ */
+export function getFlagTileIds(tileId: number) {
+  if (!Tilemap.isAutotile(tileId)) {
+    return [tileId];
+  }
+  const kind = Tilemap.getAutotileKind(tileId);
+  return Array.from({ length: 48 }, (_, shape) => Tilemap.makeAutotileId(kind, shape));
+}
+
+/**
+ * Returns the direction bit of the edge of the tile nearest to (dx, dy), relative to the center of the tile.
+ */
+export function getNearestDirection(dx: number, dy: number) {
+  if (Math.abs(dx) > Math.abs(dy)) {
+    return dx < 0 ? TileFlag.BlockLeft : TileFlag.BlockRight;
+  }
+  return dy < 0 ? TileFlag.BlockUp : TileFlag.BlockDown;
+}
+
+/**
+ * Returns the flags of the tile after a click in the mode, and the bits the click changes.
+ * Passage cycles through O, X and ☆ (only O and X for autotiles), four-direction passage toggles `direction`,
+ * and terrain tags count up from 0 to 7, or down when `reverse` is set, i.e. with the right button.
+ */
+export function editFlags(flags: number, mode: FlagMode, tileId: number, direction: number, reverse: boolean) {
+  switch (mode) {
+    case 'passage': {
+      const mask = BLOCK_ALL | TileFlag.Star;
+      if (flags & TileFlag.Star) {
+        return { flags: flags & ~mask, mask };
+      }
+      if ((flags & BLOCK_ALL) !== BLOCK_ALL) {
+        return { flags: flags | BLOCK_ALL, mask };
+      }
+      const next = Tilemap.isAutotile(tileId) ? 0 : TileFlag.Star;
+      return { flags: (flags & ~mask) | next, mask };
+    }
+    case 'passage4':
+      return { flags: flags ^ direction, mask: direction };
+    case 'terrainTag': {
+      const count = MAX_TERRAIN_TAG + 1;
+      const tag = (getTerrainTag(flags) + (reverse ? -1 : 1) + count) % count;
+      return { flags: (flags & ~TERRAIN_TAG_MASK) | (tag << 12), mask: TERRAIN_TAG_MASK };
+    }
+    default:
+      return { flags: flags ^ FLAG_MODE_BITS[mode], mask: FLAG_MODE_BITS[mode] };
+  }
+}
@@ -0,0 +1,113 @@
+import * as PIXI from 'pixi.js';
+import { getTerrainTag, TileFlag } from 'rm-common';
+import { FLAG_MODE_BITS, type FlagMode } from './flagModes';
+
+/** The size of a cell in the flag overlay, which is scaled to the tile size */
+export const CELL_SIZE = 48;
+
+const PASSABLE_COLOR = 0x40e040;
+const BLOCKED_COLOR = 0xff4040;
+
+/**
+ * Shows the setting of the current mode on each tile of the palette, as RPG Maker's database does:
+ * O, X or ☆ for passage, arrows or dots on each edge for four-direction passage,
+ * O or a dot for the other flags, and the number of terrain tags.
+ */
+export class FlagOverlay extends PIXI.Container {
+  private readonly shapes: PIXI.Graphics;
+  private readonly labels: PIXI.Container;
+
+  constructor() {
+    super();
+    this.shapes = this.addChild(new PIXI.Graphics());
+    this.labels = this.addChild(new PIXI.Container());
+  }
+
+  /**
+   * Redraws the overlay for the tiles of the palette, laid out row by row with `width` tiles in a row.
+   */
+  public draw(tileIds: Array<number>, width: number, flags: ArrayLike<number>, mode: FlagMode) {
+    this.shapes.clear();
+    for (const label of this.labels.removeChildren()) {
+      label.destroy();
+    }
+    tileIds.forEach((tileId, i) => {
+      this.drawTile(
+        (i % width) * CELL_SIZE + CELL_SIZE / 2,
+        Math.floor(i / width) * CELL_SIZE + CELL_SIZE / 2,
+        flags[tileId] ?? 0,
+        mode
+      );
+    });
+  }
+
+  private drawTile(cx: number, cy: number, flags: number, mode: FlagMode) {
+    switch (mode) {
+      case 'passage':
+        if (flags & TileFlag.Star) {
+          this.addLabel('☆', cx, cy, 0xffffff);
+        } else if ((flags & 0xf) === 0xf) {
+          this.addLabel('X', cx, cy, BLOCKED_COLOR);
+        } else {
+          this.addLabel('O', cx, cy, PASSABLE_COLOR);
+        }
+        return;
+      case 'passage4':
+        this.drawDirections(cx, cy, flags);
+        return;
+      case 'terrainTag':
+        this.addLabel(`${getTerrainTag(flags)}`, cx, cy, 0xffffff);
+        return;
+      default:
+        if (flags & FLAG_MODE_BITS[mode]) {
+          this.addLabel('O', cx, cy, PASSABLE_COLOR);
+        } else {
+          this.shapes.circle(cx, cy, 3).fill({ color: 0xffffff }).stroke({ color: 0, width: 1 });
+        }
+    }
+  }
+
+  /**
+   * Draws an arrow toward each passable edge, and a dot on each blocked one.
+   */
+  private drawDirections(cx: number, cy: number, flags: number) {
+    const directions: Array<[number, number, number]> = [
+      [TileFlag.BlockDown, 0, 1],
+      [TileFlag.BlockLeft, -1, 0],
+      [TileFlag.BlockRight, 1, 0],
+      [TileFlag.BlockUp, 0, -1]
+    ];
+    for (const [bit, dx, dy] of directions) {
+      const tipX = cx + dx * 18;
+      const tipY = cy + dy * 18;
+      if (flags & bit) {
+        this.shapes
+          .circle(tipX - dx * 4, tipY - dy * 4, 3)
+          .fill({ color: BLOCKED_COLOR })
+          .stroke({ color: 0, width: 1 });
+      } else {
+        this.shapes
+          .poly([
+            tipX,
+            tipY,
+            tipX - dx * 8 - dy * 6,
+            tipY - dy * 8 - dx * 6,
+            tipX - dx * 8 + dy * 6,
+            tipY - dy * 8 + dx * 6
+          ])
+          .fill({ color: PASSABLE_COLOR })
+          .stroke({ color: 0, width: 1 });
+      }
+    }
+  }
+
+  private addLabel(text: string, cx: number, cy: number, color: number) {
+    const label = new PIXI.BitmapText({
+      text,
+      style: { fontFamily: 'Arial', fontSize: 22, fontWeight: 'bold', fill: color, stroke: { color: 0, width: 4 } }
+    });
+    label.anchor.set(0.5);
+    label.position.set(cx, cy);
+    this.labels.addChild(label);
+  }
+}
@@ -0,0 +1,308 @@
+import * as PIXI from 'pixi.js';
+import {
+  describeTileFlags,
+  getPageData,
+  getPalettePages,
+  getTileSheetName,
+  isToTilesetEditorMessage,
+  PALETTE_WIDTH,
+  requireRpgMaker,
+  ShaderTilemap,
+  type FromTilesetEditorMessage,
+  type PaletteTab
+} from 'rm-common';
+import { editFlags, getFlagTileIds, getNearestDirection, type FlagMode } from './flagModes';
+import { CELL_SIZE, FlagOverlay } from './flagOverlay';
+
+const vscode = (globalThis as any).acquireVsCodeApi ? acquireVsCodeApi() : null;
+
+function postMessage(message: FromTilesetEditorMessage) {
+  vscode?.postMessage(message);
+}
+const _app = new PIXI.Application();
+const rpgMakerLoader = requireRpgMaker();
+const resolution = window.devicePixelRatio;
+
+/**
+ * A tileset of `Tilesets.json`, with the properties used by the editor.
+ */
+type Tileset = {
+  id: number;
+  name: string;
+  tilesetNames: Array<string>;
+  flags: Array<number>;
+};
+
+type EditorPaths = {
+  /** The folder of tileset images, i.e. `img/tilesets` */
+  tilesetImages: string;
+  /** The size of a tile in pixels, 48 unless an MZ project sets it in `System.json` */
+  tileSize?: number;
+};
+
+let assetPaths: string = '';
+let editorPaths: EditorPaths;
+/** The size of a tile in pixels */
+let tileSize = CELL_SIZE;
+
+let stage: PIXI.Container;
+let tilemap: ShaderTilemap | undefined;
+let overlay: FlagOverlay;
+
+let tilesets: Array<Tileset | null> = [];
+let tilesetId = 0;
+/** The images the tilemap was created with, so that it is recreated only when they change */
+let tilemapImages = '';
+/** Loading tileset images is asynchronous, so documents are shown one after another */
+let pendingShow: Promise<void> = Promise.resolve();
+
+/** The tile IDs of each tab, row by row */
+let pages = new Map<PaletteTab, Array<number>>();
+let currentTab: PaletteTab = 'A';
+/** The tile IDs of the current tab */
+let paletteData: Array<number> = [];
+let paletteHeight = 0;
+let mode: FlagMode = 'passage';
+
+async function setupView() {
+  const backCanvas = document.querySelector('#backCanvas') as HTMLCanvasElement;
+
+  await _app.init({
+    width: PALETTE_WIDTH * tileSize,
+    height: tileSize,
+    canvas: backCanvas,
+    resolution,
+    antialias: true,
+    preference: 'webgl' // webgpu has size issue
+  });
+
+  stage = new PIXI.Container();
+  overlay = stage.addChild(new FlagOverlay());
+  overlay.scale.set(tileSize / CELL_SIZE);
+  _app.stage = stage;
+  _app.ticker.add(update);
+}
+
+function getTilesetImages(tileset: Tileset) {
+  return tileset.tilesetNames.map((name) =>
+    name ? `${editorPaths.tilesetImages}/${encodeURIComponent(name)}.png` : ''
+  );
+}
+
+/**
+ * Shows the tilesets of the document, keeping the selected tileset if it still exists.
+ */
+function applyDocument(text: string) {
+  try {
+    tilesets = JSON.parse(text);
+  } catch {
+    return;
+  }
+  if (!tilesets[tilesetId]) {
+    tilesetId = tilesets.findIndex((tileset) => !!tileset);
+  }
+
+  const select = document.querySelector('#tileset') as HTMLSelectElement;
+  select.replaceChildren(
+    ...tilesets.flatMap((tileset) =>
+      tileset ? [new Option(`${String(tileset.id).padStart(4, '0')} ${tileset.name}`, `${tileset.id}`)] : []
+    )
+  );
+  select.value = `${tilesetId}`;
+  pendingShow = pendingShow.then(showTileset);
+}
+
+/**
+ * Shows the selected tileset. The tilemap is only recreated when the images of the tileset change.
+ */
+async function showTileset() {
+  const tileset = tilesets[tilesetId];
+  if (!tileset) return;
+  const images = getTilesetImages(tileset);
+  if (tilemap && images.join('\n') === tilemapImages) {
+    tilemap.flags = tileset.flags;
+    tilemap.refresh();
+    overlay.draw(paletteData, PALETTE_WIDTH, tileset.flags, mode);
+    return;
+  }
+
+  pages = getPalettePages(tileset.tilesetNames);
+  const mapData = { tilesetId, width: PALETTE_WIDTH, height: 1, data: getPageData([]) };
+  const newTilemap = await rpgMakerLoader.loadTileset(mapData, images, tileset.flags, true);
+  newTilemap.roundPixels = true;
+  newTilemap.origin = { x: 0, y: 0 };
+  if (tilemap) {
+    stage.removeChild(tilemap);
+    tilemap.destroy({ children: true });
+  }
+  tilemap = stage.addChildAt(newTilemap, 0);
+  tilemapImages = images.join('\n');
+  initRefreshed = false;
+
+  for (const button of document.querySelectorAll<HTMLButtonElement>('#tabs [data-tab]')) {
+    button.hidden = !pages.has(button.dataset.tab as PaletteTab);
+  }
+  showTab(pages.has(currentTab) ? currentTab : ([...pages.keys()][0] ?? 'A'));
+}
+
+/**
+ * Shows the tiles of a tab, resizing the view to fit them.
+ */
+function showTab(tab: PaletteTab) {
+  currentTab = tab;
+  paletteData = pages.get(tab) ?? [];
+  paletteHeight = Math.ceil(paletteData.length / PALETTE_WIDTH);
+
+  const [width, height] = [PALETTE_WIDTH * tileSize, Math.max(paletteHeight, 1) * tileSize];
+  const backCanvas = document.querySelector('#backCanvas') as HTMLCanvasElement;
+  backCanvas.style.width = `${width}px`;
+  backCanvas.style.height = `${height}px`;
+  _app.renderer.resize(width, height);
+  _app.stage.hitArea = _app.screen;
+
+  if (tilemap) {
+    tilemap.setData(PALETTE_WIDTH, paletteHeight, getPageData(paletteData));
+    tilemap.width = _app.renderer.width + 2 * tilemap.margin;
+    tilemap.height = _app.renderer.height + 2 * tilemap.margin;
+    tilemap.refresh();
+  }
+  overlay.draw(paletteData, PALETTE_WIDTH, tilesets[tilesetId]?.flags ?? [], mode);
+
+  for (const button of document.querySelectorAll<HTMLButtonElement>('#tabs [data-tab]')) {
+    button.classList.toggle('active', button.dataset.tab === currentTab);
+  }
+}
+
+function setupToolbar() {
+  const select = document.querySelector('#tileset') as HTMLSelectElement;
+  select.addEventListener('change', () => {
+    tilesetId = Number(select.value);
+    pendingShow = pendingShow.then(showTileset);
+  });
+
+  for (const button of document.querySelectorAll<HTMLButtonElement>('#tabs [data-tab]')) {
+    button.addEventListener('click', () => showTab(button.dataset.tab as PaletteTab));
+  }
+
+  const modeButtons = document.querySelectorAll<HTMLButtonElement>('#modes [data-mode]');
+  for (const button of modeButtons) {
+    button.addEventListener('click', () => {
+      mode = button.dataset.mode as FlagMode;
+      for (const other of modeButtons) {
+        other.classList.toggle('active', other === button);
+      }
+      overlay.draw(paletteData, PALETTE_WIDTH, tilesets[tilesetId]?.flags ?? [], mode);
+    });
+  }
+}
+
+/**
+ * Edits the flags of the tile in the current mode, and sends them to the extension.
+ * (dx, dy) is where the tile was clicked, relative to its center.
+ */
+function editTile(tileId: number, dx: number, dy: number, reverse: boolean) {
+  const tileset = tilesets[tilesetId];
+  // Tile 0 is the empty tile, which RPG Maker keeps a star tile
+  if (!tileset || tileId === 0) return;
+  const edit = editFlags(tileset.flags[tileId] ?? 0, mode, tileId, getNearestDirection(dx, dy), reverse);
+  const changes = getFlagTileIds(tileId).map((id) => ({
+    tileId: id,
+    flags: ((tileset.flags[id] ?? 0) & ~edit.mask) | (edit.flags & edit.mask)
+  }));
+  for (const change of changes) {
+    tileset.flags[change.tileId] = change.flags;
+  }
+  tilemap?.refresh();
+  overlay.draw(paletteData, PALETTE_WIDTH, tileset.flags, mode);
+  postMessage({ type: 'editFlags', tilesetId, changes });
+}
+
+function getPaletteTile(globalX: number, globalY: number) {
+  const x = Math.floor(globalX / tileSize);
+  const y = Math.floor(globalY / tileSize);
+  return x >= 0 && x < PALETTE_WIDTH ? paletteData[y * PALETTE_WIDTH + x] : undefined;
+}
+
+/**
+ * Shows the ID and the flags of the tile under the pointer.
+ */
+function showTooltip(e: PIXI.FederatedPointerEvent) {
+  const tooltip = document.querySelector('#tooltip') as HTMLElement;
+  const tileId = getPaletteTile(e.globalX, e.globalY);
+  if (tileId === undefined) {
+    tooltip.hidden = true;
+    return;
+  }
+  const flags = tilesets[tilesetId]?.flags[tileId] ?? 0;
+  tooltip.textContent = [`Tile ID: ${tileId} (${getTileSheetName(tileId)})`, ...describeTileFlags(flags)].join('\n');
+  tooltip.style.left = `${e.clientX + 12}px`;
+  tooltip.style.top = `${e.clientY + 12}px`;
+  tooltip.hidden = false;
+}
+
+function setupInput() {
+  _app.stage.eventMode = 'static';
+  _app.stage.hitArea = _app.screen;
+  _app.stage.addEventListener('pointerdown', (e) => {
+    const tileId = getPaletteTile(e.globalX, e.globalY);
+    // The right button only counts terrain tags down
+    if (tileId === undefined || !(e.button === 0 || (e.button === 2 && mode === 'terrainTag'))) return;
+    const dx = e.globalX - (Math.floor(e.globalX / tileSize) + 0.5) * tileSize;
+    const dy = e.globalY - (Math.floor(e.globalY / tileSize) + 0.5) * tileSize;
+    editTile(tileId, dx, dy, e.button === 2);
+    showTooltip(e);
+  });
+  _app.stage.addEventListener('pointermove', showTooltip);
+  _app.canvas.addEventListener('pointerleave', () => {
+    (document.querySelector('#tooltip') as HTMLElement).hidden = true;
+  });
+  _app.canvas.addEventListener('contextmenu', (e) => e.preventDefault());
+}
+
+window.addEventListener('message', (e) => {
+  const message: unknown = e.data;
+  // Messages which do not follow the protocol are ignored
+  if (!isToTilesetEditorMessage(message)) return;
+  switch (message.type) {
+    case 'update':
+      applyDocument(message.text);
+      return;
+  }
+});
+
+let initRefreshed = false;
+
+function update(ticker: PIXI.Ticker) {
+  const dt = ticker.deltaMS / 1000;
+
+  if (tilemap) {
+    tilemap.updateDelta(dt);
+    if (!initRefreshed) {
+      tilemap.origin = { x: 1, y: 1 };
+      tilemap.refresh();
+      tilemap.origin = { x: 0, y: 0 };
+      tilemap.refresh();
+      initRefreshed = true;
+    }
+  }
+}
+
+(globalThis as any).go = async () => {
+  assetPaths = (window as any).ASSET_PATHS;
+  // Patch for dev
+  if (assetPaths === '{{rpgmaker-asset-path}}') {
+    assetPaths = `{"tilesetImages":"rpgmaker/img/tilesets"}`;
+  }
+  editorPaths = JSON.parse(assetPaths) as EditorPaths;
+  tileSize = editorPaths.tileSize ?? tileSize;
+  rpgMakerLoader.tileSize = tileSize;
+  await setupView();
+  setupToolbar();
+  setupInput();
+  (globalThis as any).pixiapp = _app;
+  if (vscode) {
+    postMessage({ type: 'ready' });
+  } else {
+    applyDocument(await (await fetch('rpgmaker/data/Tilesets.json')).text());
+  }
+};